@@ -0,0 +1,79 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { WaterProfile } from '../src/v2/types'
+import type { BlendRequest, BlendResponse } from '../src/v2/types/api'
+import { blendWaters, BlendSource } from '../src/v2/calculations/blend'
+import { resolveUnits, normalizeRequest, outputVolume, isMetric } from '../src/v2/calculations/units'
+import waterProfiles from '../src/v2/data/water-profiles.json'
+import styleProfiles from '../src/v2/data/style-profiles.json'
+import { BLEND_REQUEST_SCHEMA } from '../src/v2/schemas/requests'
+import { validateSchema } from '../src/v2/schemas/json-schema'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') return res.status(200).end()
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const invalid = validateSchema(BLEND_REQUEST_SCHEMA, req.body)
+    if (invalid.length > 0) return res.status(400).json({ error: 'Invalid request', errors: invalid })
+    const { units, errors: unitErrors } = resolveUnits(req.body.units)
+    if (!units) return res.status(400).json({ error: 'Invalid units', errors: unitErrors })
+    const {
+      sources,
+      targetWater,
+      style,
+      withSalts = false,
+      volumes,
+      volumeMode = 'mash',
+      assumeCarbonateDissolution
+    } = normalizeRequest(req.body, units) as BlendRequest
+
+
+    const resolved: BlendSource[] = []
+    for (const [i, s] of sources.entries()) {
+      if (typeof s === 'string') {
+        const profile = (waterProfiles as any)[s]
+        if (!profile) return res.status(404).json({ error: 'Not found', type: 'water', id: s })
+        resolved.push({ id: s, water: profile })
+      } else {
+        resolved.push({ id: s.id || s.name || `source_${i + 1}`, water: s })
+      }
+    }
+
+    let target = targetWater
+    if (!target && style) {
+      const item = (styleProfiles as any)[style]
+      if (!item) return res.status(404).json({ error: 'Not found', type: 'style', id: style })
+      target = item.targets as WaterProfile
+    }
+    if (!target) return res.status(400).json({ error: 'Missing targetWater or style' })
+    if (withSalts && !volumes) return res.status(400).json({ error: 'Missing volumes (required with withSalts)' })
+
+    const result = blendWaters(resolved, target, {
+      withSalts,
+      volumes,
+      mode: volumeMode,
+      saltOptions: { assumeCarbonateDissolution }
+    })
+
+    return res.status(200).json({
+      ratios: result.ratios,
+      liters: result.liters,
+      sourceVolumes: result.liters && !isMetric(units)
+        ? Object.fromEntries(Object.entries(result.liters).map(([id, l]) => [id, outputVolume(l, units)]))
+        : undefined,
+      blended: result.blended,
+      additions: result.additions,
+      achieved: result.achieved,
+      deviation: result.deviation,
+      target,
+      units: req.body.units ? units : undefined
+    } satisfies BlendResponse)
+  } catch (error) {
+    console.error('Blend error:', error)
+    return res.status(500).json({ error: 'Blend failed', message: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
@@ -1,6 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import waterProfiles from '../src/v2/data/water-profiles.json'
-import styleProfiles from '../src/v2/data/style-profiles.json'
+import { handleProfiles } from '../src/v2/handlers/profiles'
 
 export default function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*')
@@ -14,24 +13,6 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  const type = (req.query.type as string) || 'water'
-  const id = req.query.id as string | undefined
-
-  if (type === 'water') {
-    if (id) {
-      const item = (waterProfiles as any)[id]
-      return item ? res.status(200).json(item) : res.status(404).json({ error: 'Not found', type, id })
-    }
-    return res.status(200).json({ type: 'water', profiles: Object.keys(waterProfiles as any) })
-  }
-
-  if (type === 'style') {
-    if (id) {
-      const item = (styleProfiles as any)[id]
-      return item ? res.status(200).json(item) : res.status(404).json({ error: 'Not found', type, id })
-    }
-    return res.status(200).json({ type: 'style', profiles: Object.keys(styleProfiles as any) })
-  }
-
-  return res.status(400).json({ error: 'Invalid type', allowed: ['water', 'style'] })
+  const { status, body } = handleProfiles(req.query)
+  return res.status(status).json(body)
 }
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { SALT_DEFINITIONS } from '../src/core/salts'
+import { SALTS } from '../src/v2/data/salts'
 
 export default function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*')
@@ -13,5 +13,6 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' })
   }
   
-  return res.status(200).json(SALT_DEFINITIONS)
-}
\ No newline at end of file
+  // The same registry /api/calculate and /api/validate compute with
+  return res.status(200).json(SALTS)
+}
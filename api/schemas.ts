@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { REQUEST_SCHEMAS } from '../src/v2/schemas/requests'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end()
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  // The JSON Schemas /api/calculate, /api/validate and /api/profiles check requests against
+  const name = req.query.name as string | undefined
+  if (!name) return res.status(200).json(REQUEST_SCHEMAS)
+  const schema = REQUEST_SCHEMAS[name]
+  return schema ? res.status(200).json(schema) : res.status(404).json({ error: 'Not found', type: 'schema', id: name })
+}
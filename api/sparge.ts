@@ -0,0 +1,55 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { SpargeRequest, SpargeResponse } from '../src/v2/types/api'
+import { calculateSpargeAcidification } from '../src/v2/calculations/sparge'
+import { parseAcidId } from '../src/v2/calculations/acids'
+import { CHEMISTRY_CONSTANTS } from '../src/v2/data/constants'
+import { resolveUnits, toLiters } from '../src/v2/calculations/units'
+import { SPARGE_REQUEST_SCHEMA } from '../src/v2/schemas/requests'
+import { validateSchema } from '../src/v2/schemas/json-schema'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') return res.status(200).end()
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const invalid = validateSchema(SPARGE_REQUEST_SCHEMA, req.body)
+    if (invalid.length > 0) return res.status(400).json({ error: 'Invalid request', errors: invalid })
+    const { units, errors: unitErrors } = resolveUnits(req.body.units)
+    if (!units) return res.status(400).json({ error: 'Invalid units', errors: unitErrors })
+    const {
+      spargeWater,
+      startingPH,
+      volume,
+      targetPH = CHEMISTRY_CONSTANTS.OPTIMAL_SPARGE_PH_MAX,
+      acid = 'lactic_88'
+    } = req.body as SpargeRequest
+
+    const startPH = typeof startingPH === 'number' ? startingPH : spargeWater?.ph
+    if (!spargeWater || typeof startPH !== 'number' || !(volume > 0)) {
+      return res.status(400).json({ error: 'Missing required fields', required: ['spargeWater', 'startingPH (or spargeWater.ph)', 'volume'] })
+    }
+    if (!parseAcidId(acid)) return res.status(400).json({ error: 'Unknown acid', acid })
+
+    const result = calculateSpargeAcidification({ water: spargeWater, startPH, volumeL: toLiters(volume, units.volume), targetPH, acid })
+
+    return res.status(200).json({
+      acid: result.acid,
+      amountMl: Math.round(result.ml * 100) / 100,
+      mEq: result.mEq,
+      startingPH: startPH,
+      targetPH: result.targetPH,
+      alkalinity: result.alkalinity,
+      changes: result.changes,
+      sulfateChlorideRatio: result.sulfateChlorideRatio,
+      spargeWater: result.water,
+      units: req.body.units ? units : undefined
+    } satisfies SpargeResponse)
+  } catch (error) {
+    console.error('Sparge error:', error)
+    return res.status(500).json({ error: 'Sparge calculation failed', message: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
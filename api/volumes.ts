@@ -0,0 +1,32 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { VolumesRequest, VolumesResponse } from '../src/v2/types/api'
+import { calculateRecipeVolumes, validateBatchParameters, boilVolumes, BatchParameters } from '../src/v2/calculations/volumes'
+import { resolveUnits, toMetric, fromMetric } from '../src/v2/calculations/units'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') return res.status(200).end()
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { units: option, ...params } = (req.body || {}) as VolumesRequest
+    const { units, errors: unitErrors } = resolveUnits(option)
+    if (!units) return res.status(400).json({ error: 'Invalid units', errors: unitErrors })
+    const batch = toMetric(params, units)
+    const errors = validateBatchParameters(batch)
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid batch parameters', errors })
+
+    const volumes = calculateRecipeVolumes(batch as BatchParameters)
+    return res.status(200).json({
+      volumes: fromMetric(volumes, units),
+      boilVolumes: fromMetric(boilVolumes(volumes, batch.grainWeight), units),
+      units: option ? units : undefined
+    } satisfies VolumesResponse)
+  } catch (error) {
+    console.error('Volumes error:', error)
+    return res.status(500).json({ error: 'Volume calculation failed', message: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
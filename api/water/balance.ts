@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { WaterBalanceRequest } from '../../src/v2/types/api'
+import { checkIonBalance } from '../../src/v2/calculations/ion-balance'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') return res.status(200).end()
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    const { water } = (req.body || {}) as Partial<WaterBalanceRequest>
+    if (!water || typeof water !== 'object') return res.status(400).json({ error: 'Missing required fields', required: ['water'] })
+
+    return res.status(200).json(checkIonBalance(water))
+  } catch (error) {
+    console.error('Ion balance error:', error)
+    return res.status(500).json({ error: 'Ion balance check failed', message: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
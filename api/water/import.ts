@@ -0,0 +1,36 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { WaterImportRequest, WaterImportResponse } from '../../src/v2/types/api'
+import { importWaterReport, parseWaterReportCSV } from '../../src/v2/calculations/water-report'
+
+export default function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (req.method === 'OPTIONS') return res.status(200).end()
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' })
+
+  try {
+    // text/csv bodies arrive as a string; JSON bodies carry { report } or { csv }
+    const body = req.body as string | WaterImportRequest | undefined
+    const csv = typeof body === 'string' ? body : body?.csv
+    const report = typeof csv === 'string' ? parseWaterReportCSV(csv) : body && typeof body === 'object' ? body.report : undefined
+
+    if (!report || typeof report !== 'object') {
+      return res.status(400).json({ error: 'Missing report (lab report object) or csv' })
+    }
+
+    const { water, conversions, unrecognized, errors } = importWaterReport(report)
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid water report', errors })
+
+    return res.status(200).json({
+      water,
+      conversions,
+      inferred: conversions.filter((c) => c.inferred).map((c) => c.field),
+      unrecognized
+    } satisfies WaterImportResponse)
+  } catch (error) {
+    console.error('Water import error:', error)
+    return res.status(500).json({ error: 'Water import failed', message: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
@@ -0,0 +1,86 @@
+import express, { ErrorRequestHandler, RequestHandler } from 'express'
+import cors from 'cors'
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { DEFAULT_SERVER_OPTIONS, ServerOptions } from './config'
+import calculate from '../api/calculate'
+import validate from '../api/validate'
+import profiles from '../api/profiles'
+import salts from '../api/salts'
+import schemas from '../api/schemas'
+import openapi from '../api/openapi'
+import sparge from '../api/sparge'
+import blend from '../api/blend'
+import volumes from '../api/volumes'
+import waterImport from '../api/water/import'
+import waterBalance from '../api/water/balance'
+
+type VercelHandler = (req: VercelRequest, res: VercelResponse) => unknown
+
+// The api/ handlers by the path Vercel serves them at (vercel.json rewrites openapi.json)
+export const HANDLERS: Record<string, VercelHandler> = {
+  '/api/calculate': calculate,
+  '/api/validate': validate,
+  '/api/profiles': profiles,
+  '/api/salts': salts,
+  '/api/schemas': schemas,
+  '/api/openapi.json': openapi,
+  '/api/openapi': openapi,
+  '/api/sparge': sparge,
+  '/api/blend': blend,
+  '/api/volumes': volumes,
+  '/api/water/import': waterImport,
+  '/api/water/balance': waterBalance
+}
+
+// Runs a Vercel handler on an Express request. CORS is the cors middleware's job
+// here, so the Access-Control-* headers the handlers set for Vercel are left out.
+function mount(handler: VercelHandler): RequestHandler {
+  return (req, res) => {
+    const response = {
+      setHeader(name: string, value: string) {
+        if (!/^access-control-/i.test(name)) res.setHeader(name, value)
+        return response
+      },
+      status(code: number) {
+        res.status(code)
+        return response
+      },
+      json(body: unknown) {
+        res.json(body)
+        return response
+      },
+      end() {
+        res.end()
+        return response
+      }
+    }
+    handler(req as unknown as VercelRequest, response as unknown as VercelResponse)
+  }
+}
+
+// Body parser failures as the JSON errors the handlers send
+const bodyErrors: ErrorRequestHandler = (error, req, res, next) => {
+  if (error?.type === 'entity.too.large') return res.status(413).json({ error: 'Payload too large', message: `Bodies are limited to ${error.limit} bytes` })
+  if (error?.type === 'entity.parse.failed') return res.status(400).json({ error: 'Invalid JSON', message: error.message })
+  if (res.headersSent) return next(error)
+  console.error('Server error:', error)
+  return res.status(500).json({ error: 'Server error', message: error instanceof Error ? error.message : 'Unknown error' })
+}
+
+/**
+ * The api/ handlers as one Express app, for running without Vercel. Requests
+ * and responses are the handlers' own; only CORS (corsOrigins) and the body
+ * size limit (jsonLimit) are the server's. Listening is left to the caller.
+ */
+export function createApp(options: Partial<ServerOptions> = {}) {
+  const { corsOrigins, jsonLimit } = { ...DEFAULT_SERVER_OPTIONS, ...options }
+  const app = express()
+  app.disable('x-powered-by')
+
+  app.use('/api', cors({ origin: corsOrigins, methods: ['GET', 'POST', 'OPTIONS'], allowedHeaders: ['Content-Type', 'Authorization'] }))
+  app.use('/api', express.json({ limit: jsonLimit }), express.text({ type: 'text/csv', limit: jsonLimit }))
+  for (const [path, handler] of Object.entries(HANDLERS)) app.all(path, mount(handler))
+  app.use('/api', (req, res) => res.status(404).json({ error: 'Not found', type: 'route', id: req.path }))
+  app.use(bodyErrors)
+  return app
+}
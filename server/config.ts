@@ -0,0 +1,33 @@
+export interface ServerOptions {
+  port: number
+  corsOrigins: '*' | string[] // '*' or the origins allowed to call the API
+  jsonLimit: string           // largest JSON or CSV body, e.g. '1mb'
+}
+
+export const DEFAULT_SERVER_OPTIONS: ServerOptions = { port: 3000, corsOrigins: '*', jsonLimit: '1mb' }
+
+const SIZE = /^\d+(\.\d+)?\s*(b|kb|mb|gb)?$/i
+
+/**
+ * Options from PORT, CORS_ORIGINS (comma-separated, or *) and JSON_LIMIT,
+ * defaulting to DEFAULT_SERVER_OPTIONS. Throws on a value the server could
+ * not start with, so a typo fails at startup rather than on the first request.
+ */
+export function serverOptionsFromEnv(env: Record<string, string | undefined> = process.env): ServerOptions {
+  const options = { ...DEFAULT_SERVER_OPTIONS }
+  if (env.PORT !== undefined && env.PORT !== '') {
+    const port = Number(env.PORT)
+    if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`PORT must be an integer from 0 to 65535, not ${env.PORT}`)
+    options.port = port
+  }
+  if (env.CORS_ORIGINS !== undefined && env.CORS_ORIGINS.trim() !== '*') {
+    const origins = env.CORS_ORIGINS.split(',').map((origin) => origin.trim()).filter(Boolean)
+    if (origins.length === 0) throw new Error('CORS_ORIGINS must be * or a comma-separated list of origins')
+    options.corsOrigins = origins
+  }
+  if (env.JSON_LIMIT !== undefined && env.JSON_LIMIT !== '') {
+    if (!SIZE.test(env.JSON_LIMIT.trim())) throw new Error(`JSON_LIMIT must be a size like 100kb or 1mb, not ${env.JSON_LIMIT}`)
+    options.jsonLimit = env.JSON_LIMIT.trim()
+  }
+  return options
+}
@@ -0,0 +1,8 @@
+import { createApp } from './app'
+import { serverOptionsFromEnv } from './config'
+
+const options = serverOptionsFromEnv()
+createApp(options).listen(options.port, () => {
+  const origins = options.corsOrigins === '*' ? 'any origin' : options.corsOrigins.join(', ')
+  console.log(`Water chemistry API on http://localhost:${options.port}/api (CORS: ${origins}, body limit ${options.jsonLimit})`)
+})
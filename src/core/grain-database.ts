@@ -139,42 +139,64 @@ export const GRAIN_DATABASE: Record<string, GrainData> = {
   }
 }
 
-// Helper function to find grain data by name or estimate from color
-export function lookupGrainData(grainName: string, colorSRM?: number): GrainData {
-  // Try exact name match first
-  const normalizedName = grainName.toLowerCase().replace(/[^a-z0-9]/g, '_')
-  
-  // Check for exact matches
-  if (GRAIN_DATABASE[normalizedName]) {
-    return GRAIN_DATABASE[normalizedName]
+export interface GrainMatch {
+  id?: string  // GRAIN_DATABASE key, absent when properties were estimated
+  data: GrainData
+  matchedBy: 'id' | 'name' | 'fuzzy' | 'color' | 'default'
+}
+
+// Resolve a grain against the database by id, then name, then color.
+// A missing or blank name skips the name matching, which would otherwise
+// fuzzy-match the first entry.
+export function matchGrain(grainName: string | undefined, colorSRM?: number, id?: string): GrainMatch {
+  if (id && GRAIN_DATABASE[id]) {
+    return { id, data: GRAIN_DATABASE[id], matchedBy: 'id' }
   }
-  
-  // Try fuzzy matching
-  for (const [key, grain] of Object.entries(GRAIN_DATABASE)) {
-    if (grain.name.toLowerCase().includes(grainName.toLowerCase()) ||
-        grainName.toLowerCase().includes(grain.name.toLowerCase())) {
-      return grain
+
+  grainName = (grainName || '').trim()
+  const lowerName = grainName.toLowerCase()
+  if (lowerName) {
+    // Try exact name match first
+    const normalizedName = lowerName.replace(/[^a-z0-9]/g, '_')
+    if (GRAIN_DATABASE[normalizedName]) {
+      return { id: normalizedName, data: GRAIN_DATABASE[normalizedName], matchedBy: 'name' }
+    }
+
+    // Try fuzzy matching
+    for (const [key, grain] of Object.entries(GRAIN_DATABASE)) {
+      const dbName = grain.name.toLowerCase()
+      if (dbName.includes(lowerName) || lowerName.includes(dbName)) {
+        return { id: key, data: grain, matchedBy: 'fuzzy' }
+      }
     }
   }
   
   // If we have color, estimate properties
   if (colorSRM !== undefined) {
-    return estimateGrainFromColor(grainName, colorSRM)
+    return { data: estimateGrainFromColor(grainName, colorSRM), matchedBy: 'color' }
   }
   
   // Default to pale ale malt
   return {
-    name: grainName,
-    colorSRM: colorSRM || 3,
-    diWaterPH: 5.68,
-    bufferCapacity: 37.2,
-    acidity: 0,
-    grainType: 'base'
+    data: {
+      name: grainName,
+      colorSRM: colorSRM || 3,
+      diWaterPH: 5.68,
+      bufferCapacity: 37.2,
+      acidity: 0,
+      grainType: 'base'
+    },
+    matchedBy: 'default'
   }
 }
 
+// Helper function to find grain data by name or estimate from color
+export function lookupGrainData(grainName: string | undefined, colorSRM?: number): GrainData {
+  return matchGrain(grainName, colorSRM).data
+}
+
 // Estimate grain properties from color (based on Bru'n Water correlations)
-function estimateGrainFromColor(name: string, colorSRM: number): GrainData {
+export function estimateGrainFromColor(name: string, colorSRM: number): GrainData {
   let diWaterPH: number
   let bufferCapacity: number
   let acidity: number
@@ -1,103 +1,282 @@
-interface IonsPPM {
-  calcium?: number
-  magnesium?: number
-  sodium?: number
-  sulfate?: number
-  chloride?: number
-  bicarbonate?: number
-  hydroxide?: number
-}
+export type SaltIon = 'calcium' | 'magnesium' | 'sodium' | 'sulfate' | 'chloride' | 'bicarbonate' | 'carbonate'
+
+export type IonsPPM = Partial<Record<SaltIon, number>>
 
-interface SaltDefinition {
+export interface SaltDefinition {
   id: string
+  name: string
+  formula?: string         // as sold, water of crystallization included, e.g. 'CaCl2·2H2O'
+  molarMass?: number       // g/mol of that formula
+  hydration?: number       // water molecules per formula unit
+  ionsPPMPerGram: IonsPPM  // mg of each ion per gram (per ml for solutions), i.e. ppm per g/L
+  solubilityLimit?: number // g/L in pure water; only sparingly soluble salts set it
+  unit?: 'g' | 'ml'        // what additions of it are measured in, default g
+  solution?: SolutionSpec  // set for stock solutions, dosed in ml
+  custom?: boolean         // defined inline by a request
+}
+
+export type SaltCatalog = Record<string, SaltDefinition>
+
+// Composition of a salt: the anhydrous formula, its hydration state and the
+// ions one formula unit releases. Molar mass and ppm per gram are derived.
+export interface SaltSpec {
   name: string
   formula: string
-  molarMass: number
-  ionsPPMPerGram: IonsPPM
+  hydration?: number
+  ions: IonsPPM // mol of each ion per mol of salt
   solubilityLimit?: number
 }
 
-export const SALT_DEFINITIONS: Record<string, SaltDefinition> = {
-  gypsum: {
-    id: 'gypsum',
-    name: 'Gypsum',
-    formula: 'CaSO₄·2H₂O',
-    molarMass: 172.17,
-    ionsPPMPerGram: {
-      calcium: 232.5,
-      sulfate: 557.7
-    }
-  },
-  calcium_chloride: {
-    id: 'calcium_chloride',
-    name: 'Calcium Chloride',
-    formula: 'CaCl₂·2H₂O',
-    molarMass: 147.01,
-    ionsPPMPerGram: {
-      calcium: 272.0,
-      chloride: 482.0
-    }
-  },
-  epsom_salt: {
-    id: 'epsom_salt',
-    name: 'Epsom Salt',
-    formula: 'MgSO₄·7H₂O',
-    molarMass: 246.47,
-    ionsPPMPerGram: {
-      magnesium: 98.6,
-      sulfate: 389.5
+// Standard atomic weights, g/mol
+const ATOMIC_MASS: Record<string, number> = {
+  H: 1.008,
+  C: 12.011,
+  N: 14.007,
+  O: 15.999,
+  Na: 22.99,
+  Mg: 24.305,
+  P: 30.974,
+  S: 32.06,
+  Cl: 35.45,
+  K: 39.098,
+  Ca: 40.078
+}
+
+const ION_FORMULAS: Record<SaltIon, string> = {
+  calcium: 'Ca',
+  magnesium: 'Mg',
+  sodium: 'Na',
+  sulfate: 'SO4',
+  chloride: 'Cl',
+  bicarbonate: 'HCO3',
+  carbonate: 'CO3'
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉'
+
+/**
+ * Molar mass of a formula such as 'CaSO4·2H2O', 'Ca(OH)2' or 'CaCl₂·2H₂O'.
+ * Parts joined by '·' (or '*') are summed, each with an optional leading
+ * count. Throws on elements missing from the atomic weight table.
+ */
+export function formulaMass(formula: string): number {
+  const normalized = formula.replace(/[₀-₉]/g, (d) => String(SUBSCRIPTS.indexOf(d))).replace(/\s+/g, '')
+  return normalized.split(/[·*]/).reduce((sum, part) => {
+    const [, count, rest] = part.match(/^(\d*)(.*)$/)!
+    return sum + (count ? Number(count) : 1) * groupMass(rest, formula)
+  }, 0)
+}
+
+function groupMass(part: string, formula: string): number {
+  const stack: number[] = [0]
+  const tokens = part.match(/[A-Z][a-z]?|\d+|\(|\)|./g) || []
+  let last = 0 // mass of the element or group a following count multiplies
+  for (const token of tokens) {
+    if (token === '(') {
+      stack.push(0)
+      last = 0
+    } else if (token === ')') {
+      if (stack.length < 2) throw new Error(`Unbalanced parentheses in formula ${formula}`)
+      last = stack.pop()!
+      stack[stack.length - 1] += last
+    } else if (/^\d+$/.test(token)) {
+      stack[stack.length - 1] += last * (Number(token) - 1)
+      last = 0
+    } else if (ATOMIC_MASS[token] !== undefined) {
+      last = ATOMIC_MASS[token]
+      stack[stack.length - 1] += last
+    } else {
+      throw new Error(`Unknown element ${token} in formula ${formula}`)
     }
-  },
-  magnesium_chloride: {
-    id: 'magnesium_chloride',
-    name: 'Magnesium Chloride',
-    formula: 'MgCl₂·6H₂O',
-    molarMass: 203.30,
-    ionsPPMPerGram: {
-      magnesium: 119.5,
-      chloride: 348.5
+  }
+  if (stack.length !== 1) throw new Error(`Unbalanced parentheses in formula ${formula}`)
+  return stack[0]
+}
+
+const round = (x: number, digits: number) => Math.round(x * 10 ** digits) / 10 ** digits
+
+export function defineSalt(id: string, spec: SaltSpec): SaltDefinition {
+  const hydration = spec.hydration || 0
+  const molarMass = formulaMass(spec.formula) + hydration * formulaMass('H2O')
+  const ionsPPMPerGram: IonsPPM = {}
+  for (const [ion, mol] of Object.entries(spec.ions) as [SaltIon, number][]) {
+    if (mol) ionsPPMPerGram[ion] = round((mol * formulaMass(ION_FORMULAS[ion]) / molarMass) * 1000, 1)
+  }
+  return {
+    id,
+    name: spec.name,
+    formula: hydration ? `${spec.formula}·${hydration}H2O` : spec.formula,
+    molarMass: round(molarMass, 2),
+    ...(hydration ? { hydration } : {}),
+    ionsPPMPerGram,
+    ...(spec.solubilityLimit !== undefined ? { solubilityLimit: spec.solubilityLimit } : {})
+  }
+}
+
+const SPECS: Record<string, SaltSpec> = {
+  gypsum: { name: 'Gypsum', formula: 'CaSO4', hydration: 2, ions: { calcium: 1, sulfate: 1 } },
+  calcium_sulfate_anhydrous: { name: 'Calcium Sulfate (anhydrous)', formula: 'CaSO4', ions: { calcium: 1, sulfate: 1 } },
+  calcium_chloride: { name: 'Calcium Chloride (dihydrate)', formula: 'CaCl2', hydration: 2, ions: { calcium: 1, chloride: 2 } },
+  calcium_chloride_anhydrous: { name: 'Calcium Chloride (anhydrous)', formula: 'CaCl2', ions: { calcium: 1, chloride: 2 } },
+  epsom_salt: { name: 'Epsom Salt', formula: 'MgSO4', hydration: 7, ions: { magnesium: 1, sulfate: 1 } },
+  magnesium_sulfate_anhydrous: { name: 'Magnesium Sulfate (anhydrous)', formula: 'MgSO4', ions: { magnesium: 1, sulfate: 1 } },
+  magnesium_chloride: { name: 'Magnesium Chloride', formula: 'MgCl2', hydration: 6, ions: { magnesium: 1, chloride: 2 } },
+  sodium_chloride: { name: 'Table Salt', formula: 'NaCl', ions: { sodium: 1, chloride: 1 } },
+  baking_soda: { name: 'Baking Soda', formula: 'NaHCO3', ions: { sodium: 1, bicarbonate: 1 } },
+  // Chalk releases carbonate; it counts as bicarbonate once the mash acids take it up
+  calcium_carbonate: { name: 'Chalk', formula: 'CaCO3', ions: { calcium: 1, carbonate: 1 }, solubilityLimit: 0.015 },
+  // Hydroxide is not tracked; its alkalinity is credited as bicarbonate after reacting with CO2
+  calcium_hydroxide: { name: 'Pickling Lime', formula: 'Ca(OH)2', ions: { calcium: 1 }, solubilityLimit: 1.85 },
+  sodium_bicarbonate: { name: 'Sodium Bicarbonate', formula: 'NaHCO3', ions: { sodium: 1, bicarbonate: 1 } }
+}
+
+// A stock solution of a registry salt, e.g. 33% calcium chloride. Additions
+// of it are ml; its ppm per ml is the salt's ppm per gram times g of salt per ml.
+export interface SolutionSpec {
+  name?: string
+  salt: string          // registry id of the salt as weighed in (mind its hydration state)
+  concentration: number // % w/w
+  density: number       // g/ml of the solution
+}
+
+export function defineSolution(id: string, spec: SolutionSpec, salt: SaltDefinition): SaltDefinition {
+  const gramsPerMl = (spec.density * spec.concentration) / 100
+  const ionsPPMPerGram: IonsPPM = {}
+  for (const [ion, ppm] of Object.entries(salt.ionsPPMPerGram) as [SaltIon, number][]) {
+    if (ppm) ionsPPMPerGram[ion] = round(ppm * gramsPerMl, 2)
+  }
+  return {
+    id,
+    name: spec.name || `${salt.name} ${spec.concentration}% solution`,
+    formula: salt.formula,
+    ionsPPMPerGram,
+    unit: 'ml',
+    solution: { salt: spec.salt, concentration: spec.concentration, density: spec.density }
+  }
+}
+
+const SOLUTION_SPECS: Record<string, SolutionSpec> = {
+  calcium_chloride_33: { name: 'Calcium Chloride 33% solution', salt: 'calcium_chloride_anhydrous', concentration: 33, density: 1.32 }
+}
+
+const DRY_SALTS: SaltCatalog = Object.fromEntries(Object.entries(SPECS).map(([id, spec]) => [id, defineSalt(id, spec)]))
+
+export const SALT_DEFINITIONS: SaltCatalog = {
+  ...DRY_SALTS,
+  ...Object.fromEntries(Object.entries(SOLUTION_SPECS).map(([id, spec]) => [id, defineSolution(id, spec, DRY_SALTS[spec.salt])]))
+}
+
+// Grams of the dissolved salt per unit of an addition (1 for dry salts)
+export function gramsPerUnit(salt: SaltDefinition): number {
+  return salt.solution ? (salt.solution.density * salt.solution.concentration) / 100 : 1
+}
+
+// A salt or mineral concentrate defined inline: either a formula with the ions
+// it releases, or the ppm per gram directly (mg of each ion per gram of product)
+export interface CustomSaltSpec {
+  name?: string
+  formula?: string
+  hydration?: number
+  ions?: IonsPPM
+  ionsPPMPerGram?: IonsPPM
+  solubilityLimit?: number
+}
+
+const isNonNegative = (x: unknown) => typeof x === 'number' && isFinite(x) && x >= 0
+
+function ionErrors(id: string, field: string, ions: unknown): string[] {
+  if (!ions || typeof ions !== 'object') return [`${id}: ${field} must be an object of ion amounts`]
+  const errors: string[] = []
+  for (const [ion, value] of Object.entries(ions)) {
+    if (!(ion in ION_FORMULAS)) errors.push(`${id}: unknown ion ${ion} in ${field}`)
+    else if (!isNonNegative(value)) errors.push(`${id}: ${field}.${ion} must be a non-negative number`)
+  }
+  return errors
+}
+
+function customSalt(id: string, spec: CustomSaltSpec): { salt?: SaltDefinition; errors: string[] } {
+  if (!spec || typeof spec !== 'object') return { errors: [`${id}: must be an object`] }
+  if (SALT_DEFINITIONS[id]) return { errors: [`${id}: already a built-in salt`] }
+  const extra = spec.solubilityLimit !== undefined && !isNonNegative(spec.solubilityLimit)
+    ? [`${id}: solubilityLimit must be a non-negative number`]
+    : []
+
+  if (spec.ionsPPMPerGram !== undefined) {
+    const errors = [...extra, ...ionErrors(id, 'ionsPPMPerGram', spec.ionsPPMPerGram)]
+    const total = Object.values(spec.ionsPPMPerGram || {}).reduce((s: number, v) => s + (Number(v) || 0), 0)
+    if (errors.length === 0 && total > 1000) errors.push(`${id}: ionsPPMPerGram adds up to more than 1000 mg per gram`)
+    if (errors.length > 0) return { errors }
+    return {
+      salt: {
+        id,
+        name: spec.name || id,
+        ...(spec.formula ? { formula: spec.formula } : {}),
+        ionsPPMPerGram: { ...spec.ionsPPMPerGram },
+        ...(spec.solubilityLimit !== undefined ? { solubilityLimit: spec.solubilityLimit } : {}),
+        custom: true
+      },
+      errors: []
     }
-  },
-  sodium_chloride: {
-    id: 'sodium_chloride',
-    name: 'Table Salt',
-    formula: 'NaCl',
-    molarMass: 58.44,
-    ionsPPMPerGram: {
-      sodium: 393.3,
-      chloride: 606.7
+  }
+
+  if (typeof spec.formula !== 'string' || !spec.ions) {
+    return { errors: [`${id}: give either ionsPPMPerGram, or formula and ions`] }
+  }
+  const errors = [...extra, ...ionErrors(id, 'ions', spec.ions)]
+  if (spec.hydration !== undefined && !isNonNegative(spec.hydration)) errors.push(`${id}: hydration must be a non-negative number`)
+  if (errors.length > 0) return { errors }
+  try {
+    const salt = defineSalt(id, { ...spec, name: spec.name || id, formula: spec.formula, ions: spec.ions })
+    const ionMass = Object.values(salt.ionsPPMPerGram).reduce((s: number, v) => s + (v || 0), 0)
+    if (ionMass > 1000.5) return { errors: [`${id}: the ions weigh more than ${salt.formula}`] }
+    return { salt: { ...salt, custom: true }, errors: [] }
+  } catch (error) {
+    return { errors: [`${id}: ${error instanceof Error ? error.message : 'invalid formula'}`] }
+  }
+}
+
+function customSolution(id: string, spec: SolutionSpec, catalog: SaltCatalog): { salt?: SaltDefinition; errors: string[] } {
+  if (!spec || typeof spec !== 'object') return { errors: [`${id}: must be an object`] }
+  if (catalog[id]) return { errors: [`${id}: already a salt id`] }
+  const errors: string[] = []
+  const salt = catalog[spec.salt]
+  if (!salt) errors.push(`${id}: unknown salt ${spec.salt}`)
+  else if (salt.solution) errors.push(`${id}: ${spec.salt} is itself a solution`)
+  if (!(typeof spec.concentration === 'number' && spec.concentration > 0 && spec.concentration <= 100)) {
+    errors.push(`${id}: concentration must be a percentage (w/w) above 0 and at most 100`)
+  }
+  if (!(typeof spec.density === 'number' && spec.density > 0)) errors.push(`${id}: density must be greater than 0 (g/ml)`)
+  if (errors.length > 0) return { errors }
+  return { salt: { ...defineSolution(id, spec, salt), custom: true }, errors: [] }
+}
+
+/**
+ * The built-in salts plus any salts and stock solutions defined inline by a
+ * request. Custom ids may not shadow a built-in salt, so a recipe always means
+ * the same thing by 'gypsum'. Solutions may dissolve a custom salt.
+ */
+export function resolveSaltCatalog(
+  custom?: Record<string, CustomSaltSpec>,
+  solutions?: Record<string, SolutionSpec>
+): { catalog?: SaltCatalog; errors: string[] } {
+  if (!custom && !solutions) return { catalog: SALT_DEFINITIONS, errors: [] }
+  const catalog: SaltCatalog = { ...SALT_DEFINITIONS }
+  const errors: string[] = []
+  if (custom && (typeof custom !== 'object' || Array.isArray(custom))) errors.push('customSalts must be an object keyed by salt id')
+  else if (custom) {
+    for (const [id, spec] of Object.entries(custom)) {
+      const result = customSalt(id, spec)
+      if (result.salt) catalog[id] = result.salt
+      errors.push(...result.errors)
     }
-  },
-  baking_soda: {
-    id: 'baking_soda',
-    name: 'Baking Soda',
-    formula: 'NaHCO₃',
-    molarMass: 84.01,
-    ionsPPMPerGram: {
-      sodium: 273.6,
-      bicarbonate: 726.4
+  }
+  if (solutions && (typeof solutions !== 'object' || Array.isArray(solutions))) errors.push('solutions must be an object keyed by solution id')
+  else if (solutions) {
+    for (const [id, spec] of Object.entries(solutions)) {
+      const result = customSolution(id, spec, catalog)
+      if (result.salt) catalog[id] = result.salt
+      errors.push(...result.errors)
     }
-  },
-  calcium_carbonate: {
-    id: 'calcium_carbonate',
-    name: 'Chalk',
-    formula: 'CaCO₃',
-    molarMass: 100.09,
-    ionsPPMPerGram: {
-      calcium: 400.4,
-      bicarbonate: 1219.2
-    },
-    solubilityLimit: 0.015
-  },
-  calcium_hydroxide: {
-    id: 'calcium_hydroxide',
-    name: 'Pickling Lime',
-    formula: 'Ca(OH)₂',
-    molarMass: 74.09,
-    ionsPPMPerGram: {
-      calcium: 540.8,
-      hydroxide: 459.2
-    },
-    solubilityLimit: 1.85
   }
-}
\ No newline at end of file
+  return errors.length > 0 ? { errors } : { catalog, errors: [] }
+}
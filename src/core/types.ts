@@ -11,6 +11,7 @@ export interface WaterProfile {
 }
 
 export interface GrainBillItem {
+  id?: string; // GRAIN_DATABASE key
   name: string;
   weight: number; // kg
   color: number; // EBC
@@ -22,10 +23,13 @@ export interface Volumes {
   total: number;
   mash: number;
   sparge: number;
+  grainAbsorption?: number; // L retained per kg of grain
+  boilOff?: number;         // L evaporated during the boil
+  deadSpace?: number;       // L left in the kettle (trub, dead space) after the boil
 }
 
 export type VolumeMode = 'total' | 'mash' | 'staged';
-export type PHModel = 'simple' | 'kaiser' | 'advanced';
+export type PHModel = 'simple' | 'kaiser' | 'advanced' | 'brunwater';
 export type OptimizationStrategy = 'balanced' | 'minimal' | 'exact';
 
 export interface SaltAddition {
@@ -83,13 +83,13 @@ describe('PPM Calculations - Critical Fix Validation', () => {
       );
       
       // Expected values from Bru'n Water (approximate)
-      // Gypsum: 2.5g * 232.5 ppm Ca/g / 17L = 34.2 ppm Ca
+      // Gypsum: 2.5g * 232.8 ppm Ca/g / 17L = 34.2 ppm Ca
       // CaCl2: 1.2g * 272.6 ppm Ca/g / 17L = 19.2 ppm Ca
-      // Total Ca: 53.4 ppm ✓
-      expect(result.calcium).toBeCloseTo(53.4, 1);
+      // Total Ca: 53.5 ppm ✓
+      expect(result.calcium).toBeCloseTo(53.5, 1);
       
-      // Gypsum: 2.5g * 557.7 ppm SO4/g / 17L = 82.0 ppm SO4
-      // Epsom: 0.5g * 389.6 ppm SO4/g / 17L = 11.5 ppm SO4
+      // Gypsum: 2.5g * 557.9 ppm SO4/g / 17L = 82.0 ppm SO4
+      // Epsom: 0.5g * 389.7 ppm SO4/g / 17L = 11.5 ppm SO4
       // Total SO4: 93.5 ppm
       expect(result.sulfate).toBeCloseTo(93.5, 1);
       
@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createApp, HANDLERS } from '../../server/app';
+import { serverOptionsFromEnv, DEFAULT_SERVER_OPTIONS, ServerOptions } from '../../server/config';
+import { ROUTES } from '../v2/schemas/openapi';
+import { calculate } from '../v2';
+
+// Serves the app in process on a free port; request() sends to it
+async function serve(options: Partial<ServerOptions> = {}) {
+  const server: Server = await new Promise((resolve) => {
+    const listening = createApp(options).listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const request = async (path: string, init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}) => {
+    const { body, ...rest } = init;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: body === undefined ? rest.method || 'GET' : rest.method || 'POST',
+      headers: { ...(body !== undefined && typeof body !== 'string' ? { 'Content-Type': 'application/json' } : {}), ...rest.headers },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  };
+  const close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return { request, close };
+}
+
+describe('Express server', () => {
+  const sourceWater = { calcium: 30, magnesium: 5, sodium: 12, sulfate: 25, chloride: 20, bicarbonate: 150 };
+  const grainBill = [{ name: 'Pilsner', weight: 5, color: 3.5, type: 'base' as const }];
+  const volumes = { total: 30, mash: 18, sparge: 12 };
+  let app: Awaited<ReturnType<typeof serve>>;
+
+  beforeAll(async () => {
+    app = await serve();
+  });
+  afterAll(async () => {
+    await app.close();
+  });
+
+  test('Mounts every documented route', () => {
+    expect(ROUTES.map((route) => route.path).filter((path) => !HANDLERS[path])).toEqual([]);
+  });
+
+  test('Answers as the handlers and the library do', async () => {
+    const request = { sourceWater, grainBill, volumes, additions: { salts: { gypsum: 3 } }, targetMashPH: 5.3 };
+    const calculated = await app.request('/api/calculate', { body: request });
+    expect(calculated.status).toBe(200);
+    expect(calculated.body).toEqual(JSON.parse(JSON.stringify(calculate(request))));
+
+    const profile = await app.request('/api/profiles?type=water&id=burton');
+    expect(profile.body.name).toBe('Burton on Trent');
+    expect((await app.request('/api/profiles?type=beer')).status).toBe(400);
+    expect((await app.request('/api/openapi.json')).body.openapi).toBe('3.1.0');
+
+    const csv = await app.request('/api/water/import', { body: 'ion,value,unit\ncalcium,40,mg/L', headers: { 'Content-Type': 'text/csv' } });
+    expect(csv.status).toBe(200);
+    expect(csv.body.water.calcium).toBe(40);
+  });
+
+  test('Handler errors, unknown routes and bad bodies come back as JSON', async () => {
+    expect(await app.request('/api/calculate')).toMatchObject({ status: 405, body: { error: 'Method not allowed' } });
+    const invalid = await app.request('/api/validate', { body: { sourceWater } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((e: { path: string }) => e.path)).toContain('grainBill');
+    expect(await app.request('/api/nope')).toMatchObject({ status: 404, body: { error: 'Not found' } });
+    const malformed = await app.request('/api/calculate', { body: '{"sourceWater":', headers: { 'Content-Type': 'application/json' } });
+    expect(malformed).toMatchObject({ status: 400, body: { error: 'Invalid JSON' } });
+  });
+
+  test('CORS origins and body limit are configurable', async () => {
+    const preflight = await app.request('/api/calculate', { method: 'OPTIONS', headers: { Origin: 'http://brewhouse.local' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('*');
+
+    const restricted = await serve({ corsOrigins: ['http://brewhouse.local'], jsonLimit: '200b' });
+    try {
+      const allowed = await restricted.request('/api/salts', { headers: { Origin: 'http://brewhouse.local' } });
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('http://brewhouse.local');
+      const other = await restricted.request('/api/salts', { headers: { Origin: 'http://elsewhere.example' } });
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+      const large = await restricted.request('/api/calculate', { body: { sourceWater, grainBill, volumes, additions: { salts: { gypsum: 3 } } } });
+      expect(large).toMatchObject({ status: 413, body: { error: 'Payload too large' } });
+    } finally {
+      await restricted.close();
+    }
+  });
+
+  test('Options come from the environment', () => {
+    expect(serverOptionsFromEnv({})).toEqual(DEFAULT_SERVER_OPTIONS);
+    expect(serverOptionsFromEnv({ PORT: '8080', CORS_ORIGINS: 'http://a.local, http://b.local', JSON_LIMIT: '2mb' }))
+      .toEqual({ port: 8080, corsOrigins: ['http://a.local', 'http://b.local'], jsonLimit: '2mb' });
+    expect(() => serverOptionsFromEnv({ PORT: 'eighty' })).toThrow('PORT must be an integer');
+    expect(() => serverOptionsFromEnv({ JSON_LIMIT: 'lots' })).toThrow('JSON_LIMIT');
+  });
+});
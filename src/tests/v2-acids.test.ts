@@ -0,0 +1,69 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseAcidId,
+  acidMEqPerMl,
+  protonsReleased,
+  bicarbonateReductionFromAcids,
+  acidulatedMaltMEqPerKg
+} from '../v2/calculations/acids';
+import { ACIDS } from '../v2/data/acids';
+
+describe('v2 Acid Chemistry', () => {
+  describe('parseAcidId', () => {
+    test('Reads acid and concentration from the id', () => {
+      const parsed = parseAcidId('phosphoric_10');
+      expect(parsed?.acid.formula).toBe('H3PO4');
+      expect(parsed?.concentration).toBe(10);
+    });
+
+    test('Bare acid name uses first standard concentration', () => {
+      expect(parseAcidId('lactic')?.concentration).toBe(88);
+      expect(parseAcidId('citric')?.concentration).toBe(50);
+    });
+
+    test('Unknown acids and impossible concentrations are rejected', () => {
+      expect(parseAcidId('acetic_5')).toBeUndefined();
+      expect(parseAcidId('lactic_120')).toBeUndefined();
+      expect(parseAcidId('citric_100')).toBeUndefined(); // past its solubility, crystals are not a liquid
+    });
+  });
+
+  describe('acidMEqPerMl', () => {
+    test('Lactic 88% is close to the published 11.8 mEq/ml', () => {
+      const mEq = acidMEqPerMl('lactic_88', 5.4);
+      expect(mEq).toBeGreaterThan(11.2);
+      expect(mEq).toBeLessThan(11.9);
+    });
+
+    test('Phosphoric only gives up a small share of its second proton at mash pH', () => {
+      const protons = protonsReleased(ACIDS.phosphoric, 5.4);
+      expect(protons).toBeGreaterThan(1);
+      expect(protons).toBeLessThan(1.05);
+      expect(acidMEqPerMl('phosphoric_85', 5.4)).toBeGreaterThan(14.5);
+      expect(acidMEqPerMl('phosphoric_85', 5.4)).toBeLessThan(15.2);
+    });
+
+    test('Strength scales with concentration', () => {
+      expect(acidMEqPerMl('lactic_80')).toBeLessThan(acidMEqPerMl('lactic_88'));
+      expect(acidMEqPerMl('phosphoric_10')).toBeLessThan(acidMEqPerMl('phosphoric_85') / 8);
+    });
+
+    test('Strong acids are fully dissociated', () => {
+      expect(protonsReleased(ACIDS.hydrochloric, 5.4)).toBeCloseTo(1, 6);
+      expect(protonsReleased(ACIDS.sulfuric, 5.4)).toBeCloseTo(2, 3);
+    });
+  });
+
+  test('Bicarbonate reduction follows mEq per liter', () => {
+    const drop = bicarbonateReductionFromAcids({ lactic_88: 2 }, 20, 5.4);
+    expect(drop).toBeCloseTo((2 * acidMEqPerMl('lactic_88', 5.4) / 20) * 61, 6);
+    expect(bicarbonateReductionFromAcids({ unknown_50: 2 }, 20)).toBe(0);
+  });
+
+  test('Acidulated malt acidity scales with its lactic acid content', () => {
+    // 2% lactic: 20 g/kg / 90.08 g/mol ≈ 222 mmol/kg, nearly all dissociated at mash pH
+    expect(acidulatedMaltMEqPerKg(2, 5.4)).toBeGreaterThan(210);
+    expect(acidulatedMaltMEqPerKg(2, 5.4)).toBeLessThan(222);
+    expect(acidulatedMaltMEqPerKg(3, 5.4)).toBeCloseTo(acidulatedMaltMEqPerKg(2, 5.4) * 1.5, 6);
+  });
+});
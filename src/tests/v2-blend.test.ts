@@ -0,0 +1,95 @@
+import { describe, test, expect } from '@jest/globals';
+import { blendWaters, mixWaters, MAX_BLEND_SOURCES } from '../v2/calculations/blend';
+import blendHandler from '../../api/blend';
+import { BLEND_REQUEST_SCHEMA } from '../v2/schemas/requests';
+import { validateSchema } from '../v2/schemas/json-schema';
+import { WaterProfile, Volumes } from '../core/types';
+
+// POSTs to the handler in process and returns its status and JSON body
+function post(body: unknown): { status?: number; body?: any } {
+  let sent: { status?: number; body?: any } = {};
+  const res = {
+    setHeader() {},
+    status(status: number) {
+      return { json: (b: unknown) => { sent = { status, body: b }; }, end() {} };
+    }
+  };
+  blendHandler({ method: 'POST', body } as any, res as any);
+  return sent;
+}
+
+describe('v2 Water Blending', () => {
+  const hardTap: WaterProfile = {
+    calcium: 160,
+    magnesium: 30,
+    sodium: 40,
+    sulfate: 120,
+    chloride: 80,
+    bicarbonate: 320
+  };
+
+  const ro: WaterProfile = {
+    calcium: 0,
+    magnesium: 0,
+    sodium: 0,
+    sulfate: 0,
+    chloride: 0,
+    bicarbonate: 0
+  };
+
+  const volumes: Volumes = { total: 30, mash: 18, sparge: 12 };
+
+  test('mixWaters is a volume-weighted average', () => {
+    const mixed = mixWaters([{ id: 'tap', water: hardTap }, { id: 'ro', water: ro }], [0.25, 0.75]);
+    expect(mixed.calcium).toBeCloseTo(40, 6);
+    expect(mixed.bicarbonate).toBeCloseTo(80, 6);
+  });
+
+  test('Finds the dilution ratio that reproduces a diluted target', () => {
+    const target = mixWaters([{ id: 'tap', water: hardTap }, { id: 'ro', water: ro }], [0.3, 0.7]);
+    const result = blendWaters([{ id: 'tap', water: hardTap }, { id: 'ro', water: ro }], target, { volumes });
+    expect(result.ratios.tap).toBeCloseTo(0.3, 6);
+    expect(result.ratios.ro).toBeCloseTo(0.7, 6);
+    expect(result.deviation).toBeLessThan(1e-6);
+    expect(result.liters).toEqual({ tap: 9, ro: 21 });
+  });
+
+  test('Blending with salts does at least as well as dilution alone', () => {
+    const target: WaterProfile = { calcium: 100, magnesium: 10, sodium: 10, sulfate: 250, chloride: 60, bicarbonate: 30 };
+    const sources = [{ id: 'tap', water: hardTap }, { id: 'ro', water: ro }];
+    const diluted = blendWaters(sources, target);
+    const salted = blendWaters(sources, target, { withSalts: true, volumes });
+    expect(salted.additions).toBeDefined();
+    expect(salted.deviation).toBeLessThanOrEqual(diluted.deviation);
+  });
+
+  test('Supports more than two sources and validates input', () => {
+    const soft: WaterProfile = { calcium: 20, magnesium: 5, sodium: 10, sulfate: 15, chloride: 10, bicarbonate: 30 };
+    const result = blendWaters(
+      [{ id: 'tap', water: hardTap }, { id: 'soft', water: soft }, { id: 'ro', water: ro }],
+      soft
+    );
+    const total = Object.values(result.ratios).reduce((s, f) => s + f, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(result.ratios.soft).toBeCloseTo(1, 6);
+    expect(() => blendWaters([{ id: 'tap', water: hardTap }], soft)).toThrow();
+    expect(() => blendWaters([{ id: 'tap', water: hardTap }, { id: 'ro', water: ro }], soft, { withSalts: true })).toThrow();
+  });
+
+  test('Caps the number of sources and the grid size', () => {
+    const sources = Array.from({ length: MAX_BLEND_SOURCES + 1 }, (_, i) => ({ id: `s${i}`, water: { ...hardTap, calcium: 20 * i } }));
+    expect(() => blendWaters(sources, ro)).toThrow('At most 4');
+    expect(() => blendWaters(sources.slice(0, 3), ro, { step: 0.01 })).toThrow('too fine');
+    expect(blendWaters(sources.slice(0, MAX_BLEND_SOURCES), ro).ratios.s0).toBe(1);
+
+    const body = { sources: sources.map((s) => ({ ...s.water, id: s.id })), targetWater: ro };
+    expect(validateSchema(BLEND_REQUEST_SCHEMA, body).map((e) => e.code)).toEqual(['maxItems']);
+    expect(post(body)).toMatchObject({ status: 400, body: { error: 'Invalid request', errors: [{ path: 'sources', code: 'maxItems' }] } });
+  });
+
+  test('Answers a missing or non-object body with 400', () => {
+    for (const body of [undefined, null, 'tap+ro', [ro]]) {
+      expect(post(body)).toMatchObject({ status: 400, body: { error: 'Invalid request' } });
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect } from '@jest/globals';
+import { solubilityGramsPerLiter, maxDissolvedGrams, checkSolubility, dissolutionConditions } from '../v2/calculations/dissolution';
+import { calculateSaltContribution } from '../v2/calculations/ppm';
+import { optimizeWaterExact, optimizeWaterNNLS } from '../v2/calculations/optimize';
+import { SALTS } from '../v2/data/salts';
+import { WaterProfile, Volumes } from '../core/types';
+
+describe('v2 salt dissolution', () => {
+  const chalk = SALTS.calcium_carbonate;
+  const lime = SALTS.calcium_hydroxide;
+  const volumes: Volumes = { total: 30, mash: 15, sparge: 15 };
+
+  test('Chalk solubility grows with CO2 and with mash acidity', () => {
+    const none = solubilityGramsPerLiter(chalk, { co2: 'none' })!;
+    const air = solubilityGramsPerLiter(chalk, { co2: 'atmospheric' })!;
+    const saturated = solubilityGramsPerLiter(chalk, { co2: 'saturated' })!;
+    expect(none).toBe(0.015);
+    expect(air).toBeCloseTo(0.047, 3);
+    expect(saturated).toBeCloseTo(0.65, 2);
+    expect(solubilityGramsPerLiter(chalk, { pH: 5.4 })!).toBeGreaterThan(solubilityGramsPerLiter(chalk, { pH: 5.8 })!);
+  });
+
+  test('Lime keeps its limit and freely soluble salts have none', () => {
+    expect(solubilityGramsPerLiter(lime, { pH: 5.4 })).toBe(1.85);
+    expect(solubilityGramsPerLiter(SALTS.gypsum)).toBeUndefined();
+    expect(maxDissolvedGrams(SALTS.gypsum, 20, {})).toBe(Infinity);
+  });
+
+  test('Mash salts meet grist acidity, total-mode and sparge salts plain water', () => {
+    expect(dissolutionConditions('mash', undefined, { mashPH: 5.3 })).toEqual({ pH: 5.3 });
+    expect(dissolutionConditions('total', undefined)).toEqual({ co2: 'atmospheric' });
+    expect(dissolutionConditions('staged', 'sparge', { co2: 'saturated' })).toEqual({ co2: 'saturated' });
+  });
+
+  test('Contributions are capped at what dissolves and flagged', () => {
+    const full = calculateSaltContribution(chalk, 4, volumes, 'total');
+    const capped = calculateSaltContribution(chalk, 4, volumes, 'total', undefined, { assumeCarbonateDissolution: true, dissolution: {} });
+    const max = maxDissolvedGrams(chalk, 30, { co2: 'atmospheric' });
+    expect(capped.calcium).toBeCloseTo((full.calcium * max) / 4, 6);
+
+    const issues = checkSolubility({ calcium_carbonate: 4, gypsum: 5 }, volumes, 'total');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ saltId: 'calcium_carbonate', grams: 4, maxGrams: Math.round(max * 100) / 100 });
+    expect(checkSolubility({ calcium_carbonate: 4 }, volumes, 'mash')).toEqual([]);
+  });
+
+  test('Optimizers stay within what can dissolve', () => {
+    const soft: WaterProfile = { calcium: 10, magnesium: 2, sodium: 5, sulfate: 10, chloride: 10, bicarbonate: 20 };
+    const target: WaterProfile = { ...soft, calcium: 120, bicarbonate: 300 };
+    const opts = { allowedSalts: ['calcium_carbonate', 'gypsum'] };
+    const max = maxDissolvedGrams(chalk, 30, { co2: 'atmospheric' });
+    expect(optimizeWaterExact(soft, target, volumes, 'total', opts).calcium_carbonate).toBeLessThanOrEqual(max);
+    expect(optimizeWaterNNLS(soft, target, volumes, 'total', opts).additions.calcium_carbonate).toBeLessThanOrEqual(max);
+    const saturated = optimizeWaterNNLS(soft, target, volumes, 'total', { ...opts, dissolution: { co2: 'saturated' } });
+    expect(saturated.additions.calcium_carbonate).toBeGreaterThan(max);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, test, expect } from '@jest/globals';
+import { checkIonBalance, describeIonBalance } from '../v2/calculations/ion-balance';
+import { WaterProfile } from '../core/types';
+
+describe('v2 ion balance', () => {
+  const report: WaterProfile = { calcium: 50, magnesium: 10, sodium: 20, sulfate: 96, chloride: 50, bicarbonate: 48 };
+
+  test('A consistent report balances and is reliable', () => {
+    const balance = checkIonBalance(report);
+    expect(balance.cations).toBeCloseTo(4.19, 2);
+    expect(balance.anions).toBeCloseTo(4.2, 2);
+    expect(Math.abs(balance.errorPercent)).toBeLessThan(1);
+    expect(balance.status).toBe('reliable');
+    expect(balance.suggestions).toEqual([]);
+    expect(describeIonBalance(balance)).toBeUndefined();
+  });
+
+  test('Suggests the missing ion on the short side', () => {
+    const balance = checkIonBalance({ ...report, sodium: 0 });
+    expect(balance.status).toBe('bad');
+    expect(balance.errorPercent).toBeLessThan(-10);
+    expect(balance.suggestions[0]).toMatchObject({ ion: 'sodium', kind: 'missing', suggested: 20 });
+  });
+
+  test('Recognizes sulfate entered as sulfur', () => {
+    const balance = checkIonBalance({ ...report, sulfate: 32 });
+    expect(balance.status).toBe('bad');
+    expect(balance.suggestions[0]).toMatchObject({ ion: 'sulfate', kind: 'unit' });
+    expect(balance.suggestions[0].suggested).toBeCloseTo(95.9, 1);
+    expect(describeIonBalance(balance)).toContain('sulfur');
+  });
+
+  test('Small errors are questionable; the ion needing the smallest relative change is suggested last', () => {
+    const balance = checkIonBalance({ ...report, chloride: 30 });
+    expect(balance.status).toBe('questionable');
+    expect(balance.suggestions[balance.suggestions.length - 1]).toMatchObject({ ion: 'sulfate', kind: 'adjust', suggested: 123 });
+  });
+
+  test('Very soft water is judged on the absolute difference', () => {
+    expect(checkIonBalance({ calcium: 3, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 }).status).toBe('reliable');
+  });
+});
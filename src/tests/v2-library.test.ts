@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  calculate,
+  validate,
+  optimize,
+  predictPH,
+  runPipeline,
+  getWaterProfile,
+  getStyleProfile,
+  listStyleProfiles,
+  WaterChemistryError
+} from '../v2';
+import calculateHandler from '../../api/calculate';
+import profilesHandler from '../../api/profiles';
+import { WaterProfile, Volumes, GrainBillItem } from '../core/types';
+
+// Runs a handler in process and returns its status and JSON body
+function call(handler: (req: any, res: any) => unknown, req: object): { status: number; body: any } {
+  const sent = { status: 0, body: undefined as any };
+  const res = {
+    setHeader() {},
+    status(status: number) {
+      sent.status = status;
+      return { json: (body: unknown) => { sent.body = body; }, end() {} };
+    }
+  };
+  handler(req, res);
+  return sent;
+}
+
+// Relative imports of a module and everything it imports, with the packages they reach
+function importGraph(file: string, seen = new Set<string>(), packages = new Set<string>()) {
+  if (seen.has(file)) return { seen, packages };
+  seen.add(file);
+  const source = fs.readFileSync(file, 'utf8');
+  for (const [, spec] of source.matchAll(/from '([^']+)'/g)) {
+    if (!spec.startsWith('.')) {
+      packages.add(spec);
+      continue;
+    }
+    const target = path.resolve(path.dirname(file), spec);
+    const resolved = [`${target}.ts`, path.join(target, 'index.ts')].find((f) => fs.existsSync(f));
+    if (resolved) importGraph(resolved, seen, packages);
+  }
+  return { seen, packages };
+}
+
+describe('v2 library entry point', () => {
+  const volumes: Volumes = { total: 30, mash: 18, sparge: 12 };
+  const sourceWater: WaterProfile = { calcium: 30, magnesium: 5, sodium: 12, sulfate: 25, chloride: 20, bicarbonate: 150 };
+  const grainBill: GrainBillItem[] = [{ name: 'Pilsner', weight: 5, color: 3.5, type: 'base' }];
+
+  test('Answers exactly as the API does', () => {
+    const requests = [
+      { sourceWater, grainBill, volumes, additions: { salts: { gypsum: 3 } }, targetMashPH: 5.3, phModel: 'kaiser' as const },
+      { sourceWater, grainBill, batch: { batchSize: 20 }, mode: 'auto' as const, style: 'american-ipa', units: 'imperial' as const }
+    ];
+    for (const request of requests) {
+      expect(calculate(request)).toEqual(call(calculateHandler, { method: 'POST', body: request }).body);
+    }
+    const { mode, ...auto } = requests[1];
+    expect(optimize(auto)).toEqual(calculate(requests[1]));
+    expect(validate({ sourceWater, grainBill, volumes, plannedAdditions: { salts: { gypsum: 3 } } }).valid).toBe(false);
+  });
+
+  test('Rejected requests throw with the API error body', () => {
+    expect(() => validate({} as any)).toThrow(WaterChemistryError);
+    try {
+      optimize({ sourceWater, grainBill, volumes, style: 'no-such-style' });
+    } catch (error) {
+      expect(error).toBeInstanceOf(WaterChemistryError);
+      expect((error as WaterChemistryError).status).toBe(404);
+      expect((error as WaterChemistryError).body).toEqual({ error: 'Not found', type: 'style', id: 'no-such-style' });
+    }
+    expect.assertions(4);
+  });
+
+  test('predictPH and profile lookups', () => {
+    expect(predictPH(sourceWater, grainBill, volumes, 'advanced')).toBe(runPipeline({ sourceWater, grainBill, volumes, phModel: 'advanced' }).mashPH);
+    expect(getWaterProfile('burton')).toEqual(call(profilesHandler, { method: 'GET', query: { type: 'water', id: 'burton' } }).body);
+    expect(getStyleProfile('american_ipa')?.targets.sulfate).toBeGreaterThan(0);
+    expect(listStyleProfiles()).toContain('american_ipa');
+    expect(getWaterProfile('constructor')).toBeUndefined();
+  });
+
+  test('Imports no transport code', () => {
+    const { seen, packages } = importGraph(path.join(__dirname, '../v2/index.ts'));
+    expect([...packages]).toEqual([]);
+    expect([...seen].filter((file) => file.includes(`${path.sep}api${path.sep}`))).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, test, expect } from '@jest/globals';
+import { calculateWaterMetrics, calculateWaterMetricsSet, residualAlkalinity } from '../v2/calculations/metrics';
+import { WaterProfile } from '../core/types';
+
+describe('v2 water metrics', () => {
+  const water: WaterProfile = { calcium: 50, magnesium: 10, sodium: 20, sulfate: 96, chloride: 50, bicarbonate: 122.04 };
+
+  test('Reports hardness, alkalinity, RA, ratio, TDS and ionic strength', () => {
+    const m = calculateWaterMetrics(water);
+    expect(m.totalHardness).toBeCloseTo(166, 0);
+    expect(m.alkalinity).toBeCloseTo(100.1, 1);
+    expect(m.temporaryHardness).toBe(m.alkalinity);
+    expect(m.permanentHardness).toBeCloseTo(m.totalHardness - m.alkalinity, 0);
+    expect(m.residualAlkalinity).toBeCloseTo(58.5, 1);
+    expect(m.sulfateChlorideRatio).toBe(1.92);
+    expect(m.tds).toBeCloseTo(286, 0);
+    expect(m.ionicStrength).toBeGreaterThan(0.005);
+    expect(m.ionicStrength).toBeLessThan(0.01);
+  });
+
+  test('Temporary hardness is capped by the hardness when alkalinity exceeds it', () => {
+    const m = calculateWaterMetrics({ ...water, calcium: 10, magnesium: 0 });
+    expect(m.temporaryHardness).toBe(m.totalHardness);
+    expect(m.permanentHardness).toBe(0);
+  });
+
+  test('Carbonate counts toward alkalinity and no chloride gives no ratio', () => {
+    const m = calculateWaterMetrics({ ...water, bicarbonate: 0, carbonate: 30, chloride: 0 });
+    expect(m.alkalinity).toBeCloseTo(50, 0);
+    expect(m.sulfateChlorideRatio).toBeNull();
+  });
+
+  test('Acid beyond the alkalinity keeps lowering RA', () => {
+    expect(residualAlkalinity({ ...water, bicarbonate: -30 })).toBeLessThan(residualAlkalinity({ ...water, bicarbonate: 0 }));
+  });
+
+  test('Reports source, achieved and final water', () => {
+    const set = calculateWaterMetricsSet(water, { ...water, calcium: 100 }, { ...water, calcium: 100, bicarbonate: 20 });
+    expect(set.achieved.residualAlkalinity).toBeLessThan(set.source.residualAlkalinity);
+    expect(set.final.alkalinity).toBeLessThan(set.achieved.alkalinity);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, test, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildOpenAPIDocument, ROUTES } from '../v2/schemas/openapi';
+
+// api/water/import.ts → /api/water/import; openapi.ts is served as /api/openapi.json
+function handlerRoutes(dir: string, prefix = '/api'): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) return handlerRoutes(path.join(dir, entry.name), `${prefix}/${entry.name}`);
+    const name = entry.name.replace(/\.ts$/, '');
+    return [`${prefix}/${name === 'openapi' ? 'openapi.json' : name}`];
+  });
+}
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) value.forEach((item) => collectRefs(item, refs));
+  else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === '$ref') refs.push(item as string);
+      else collectRefs(item, refs);
+    }
+  }
+  return refs;
+}
+
+describe('v2 OpenAPI document', () => {
+  const doc = buildOpenAPIDocument();
+
+  test('Every handler under api/ is documented', () => {
+    const documented = ROUTES.map((r) => r.path).sort();
+    expect(documented).toEqual(handlerRoutes(path.join(__dirname, '../../api')).sort());
+    for (const route of ROUTES) {
+      const operation = (doc.paths[route.path] as any)[route.method];
+      expect(operation.responses[200].content['application/json'].schema).toBeDefined();
+      if (route.method === 'post') expect(operation.requestBody.content['application/json'].schema).toBeDefined();
+    }
+  });
+
+  test('Shared schemas are components and every reference resolves', () => {
+    const refs = collectRefs(doc);
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.replace('#/components/schemas/', '');
+      expect(doc.components.schemas[name]).toBeDefined();
+    }
+    expect(JSON.stringify(doc)).not.toContain('"$id"');
+  });
+
+  test('Enums come from the handler types', () => {
+    const calculate = doc.components.schemas.CalculateRequest;
+    expect(calculate.properties!.phModel.enum).toEqual(['simple', 'kaiser', 'advanced', 'brunwater']);
+    expect(calculate.properties!.optimization.enum).toEqual(['simple', 'balanced', 'exact', 'nnls']);
+    expect(doc.components.schemas.ValidationIssue.properties!.severity.enum).toEqual(['error', 'warning', 'info']);
+    expect(doc.components.schemas.IonBalance.properties!.status.enum).toEqual(['reliable', 'questionable', 'bad']);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  optimizeWaterSimple,
+  optimizeWaterBalanced,
+  optimizeWaterExact,
+  optimizeWaterNNLS,
+  describeConstraintViolations,
+  estimateTDS,
+  ratioBand,
+  SaltAdditions
+} from '../v2/calculations/optimize';
+import { calculateSaltContribution } from '../v2/calculations/ppm';
+import { nnls } from '../v2/calculations/nnls';
+import { SALTS } from '../v2/data/salts';
+import { WaterProfile, Volumes } from '../core/types';
+
+const volumes: Volumes = { total: 30, mash: 20, sparge: 10 };
+const roWater: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 };
+
+// Every auto optimizer, returning just the additions
+const optimizers = {
+  simple: optimizeWaterSimple,
+  balanced: optimizeWaterBalanced,
+  exact: optimizeWaterExact,
+  nnls: (...args: Parameters<typeof optimizeWaterNNLS>) => optimizeWaterNNLS(...args).additions
+};
+
+describe('v2 optimizer constraints', () => {
+  // Burton-like target: lots of calcium and sulfate
+  const target: WaterProfile = {
+    calcium: 275,
+    magnesium: 40,
+    sodium: 25,
+    sulfate: 610,
+    chloride: 35,
+    bicarbonate: 100
+  };
+
+  const apply = (additions: SaltAdditions): WaterProfile => {
+    const water = { ...roWater };
+    for (const [saltId, grams] of Object.entries(additions)) {
+      const c = calculateSaltContribution(SALTS[saltId], grams, volumes, 'mash');
+      water.calcium += c.calcium;
+      water.magnesium += c.magnesium;
+      water.sodium += c.sodium;
+      water.sulfate += c.sulfate;
+      water.chloride += c.chloride;
+      water.bicarbonate += c.bicarbonate;
+    }
+    return water;
+  };
+
+  test.each(Object.keys(optimizers))('%s optimizer honors allowedSalts, maxSalts and maxSaltAmount', (name) => {
+    const optimize = optimizers[name as keyof typeof optimizers];
+    const additions = optimize(roWater, target, volumes, 'mash', {
+      allowedSalts: ['gypsum', 'epsom_salt', 'calcium_chloride'],
+      maxSalts: 2,
+      maxSaltAmount: 5
+    });
+
+    expect(Object.keys(additions).length).toBeGreaterThan(0);
+    expect(Object.keys(additions).length).toBeLessThanOrEqual(2);
+    for (const [saltId, grams] of Object.entries(additions)) {
+      expect(['gypsum', 'epsom_salt', 'calcium_chloride']).toContain(saltId);
+      expect(grams).toBeLessThanOrEqual(5);
+    }
+  });
+
+  test.each(Object.keys(optimizers))('%s optimizer keeps achieved water under the ion caps', (name) => {
+    const optimize = optimizers[name as keyof typeof optimizers];
+    const constraints = { maxCalcium: 150, maxMagnesium: 15, maxSodium: 10, maxTDS: 700 };
+    const achieved = apply(optimize(roWater, target, volumes, 'mash', { constraints }));
+
+    expect(achieved.calcium).toBeLessThanOrEqual(150);
+    expect(achieved.magnesium).toBeLessThanOrEqual(15);
+    expect(achieved.sodium).toBeLessThanOrEqual(10);
+    expect(estimateTDS(achieved)).toBeLessThanOrEqual(700);
+    expect(describeConstraintViolations(achieved, constraints)).toEqual([]);
+  });
+
+  test('Violations are reported for water already over a cap', () => {
+    const salty: WaterProfile = { ...roWater, sodium: 120 };
+    expect(describeConstraintViolations(salty, { maxSodium: 50 })).toEqual([
+      'Sodium 120 ppm exceeds maxSodium 50 ppm'
+    ]);
+  });
+});
+
+describe('v2 NNLS optimizer', () => {
+  test('Solver returns the non-negative least squares solution', () => {
+    // Unconstrained optimum is (2, -1); with x >= 0 it becomes (1.5, 0)
+    const x = nnls([[1, 0], [0, 1], [1, 1]], [2, -1, 1]);
+    expect(x[0]).toBeCloseTo(1.5, 9);
+    expect(x[1]).toBe(0);
+  });
+
+  test('Reaches a target built from the salts themselves with zero residual', () => {
+    const target = { ...roWater };
+    const gypsum = calculateSaltContribution(SALTS.gypsum, 3, volumes, 'mash');
+    const cacl2 = calculateSaltContribution(SALTS.calcium_chloride, 2, volumes, 'mash');
+    for (const ion of ['calcium', 'sulfate', 'chloride'] as const) target[ion] = gypsum[ion] + cacl2[ion];
+
+    const result = optimizeWaterNNLS(roWater, target, volumes, 'mash');
+    expect(result.additions).toEqual({ gypsum: 3, calcium_chloride: 2 });
+    for (const residual of Object.values(result.residuals)) {
+      expect(Math.abs(residual)).toBeLessThan(0.5);
+    }
+  });
+
+  test('Is deterministic and follows per-ion weights', () => {
+    const target: WaterProfile = { calcium: 100, magnesium: 0, sodium: 0, sulfate: 50, chloride: 150, bicarbonate: 0 };
+    const first = optimizeWaterNNLS(roWater, target, volumes, 'mash', { allowedSalts: ['gypsum', 'calcium_chloride'] });
+    const second = optimizeWaterNNLS(roWater, target, volumes, 'mash', { allowedSalts: ['calcium_chloride', 'gypsum'] });
+    expect(second).toEqual(first);
+
+    const chlorideFirst = optimizeWaterNNLS(roWater, target, volumes, 'mash', {
+      allowedSalts: ['gypsum', 'calcium_chloride'],
+      weights: { chloride: 10, calcium: 0.1 }
+    });
+    expect(Math.abs(chlorideFirst.residuals.chloride)).toBeLessThan(Math.abs(first.residuals.chloride));
+  });
+});
+
+describe('v2 sulfate:chloride goals', () => {
+  // Even 1:1 target
+  const target: WaterProfile = { calcium: 80, magnesium: 5, sodium: 10, sulfate: 80, chloride: 80, bicarbonate: 30 };
+
+  const ratioOf = (additions: SaltAdditions) => {
+    let sulfate = 0;
+    let chloride = 0;
+    for (const [saltId, grams] of Object.entries(additions)) {
+      const c = calculateSaltContribution(SALTS[saltId], grams, volumes, 'mash');
+      sulfate += c.sulfate;
+      chloride += c.chloride;
+    }
+    return sulfate / chloride;
+  };
+
+  test('ratioBand resolves flavors and explicit targets', () => {
+    expect(ratioBand({ flavor: 'hoppy' })).toEqual({ min: 2, max: 5 });
+    expect(ratioBand({ flavor: 'malty', ratioTarget: 1.2 })).toEqual({ min: 1.2, max: 1.2 });
+    expect(ratioBand({})).toBeUndefined();
+  });
+
+  test.each(Object.keys(optimizers))('%s optimizer moves into the hoppy band when weighted', (name) => {
+    const optimize = optimizers[name as keyof typeof optimizers];
+    const plain = ratioOf(optimize(roWater, target, volumes, 'mash', {}));
+    const hoppy = ratioOf(optimize(roWater, target, volumes, 'mash', { flavor: 'hoppy', ratioWeight: 20 }));
+
+    expect(plain).toBeLessThan(2);
+    expect(hoppy).toBeGreaterThan(plain);
+    expect(hoppy).toBeGreaterThanOrEqual(1.9);
+  });
+
+  test('ratioWeight 0 leaves the optimum unchanged', () => {
+    expect(optimizeWaterNNLS(roWater, target, volumes, 'mash', { flavor: 'malty', ratioWeight: 0 }))
+      .toEqual(optimizeWaterNNLS(roWater, target, volumes, 'mash'));
+    expect(optimizeWaterExact(roWater, target, volumes, 'mash', { flavor: 'malty', ratioWeight: 0 }))
+      .toEqual(optimizeWaterExact(roWater, target, volumes, 'mash'));
+  });
+});
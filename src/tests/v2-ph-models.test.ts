@@ -0,0 +1,145 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculateMashPH_Simple,
+  calculateMashPH_Kaiser,
+  calculateMashPH_Advanced,
+  calculateMashPH_AdvancedDetailed,
+  calculateMashPH_GrainDatabase,
+  calculateMashPH_GrainDatabaseDetailed
+} from '../v2/calculations/ph';
+import { residualAlkalinity } from '../v2/calculations/metrics';
+import { GrainBillItem, WaterProfile } from '../core/types';
+
+describe('v2 pH Models', () => {
+  const baseGrainBill: GrainBillItem[] = [
+    { name: 'Pilsner Malt', weight: 5.0, color: 3, type: 'base' }
+  ];
+
+  const darkGrainBill: GrainBillItem[] = [
+    { name: 'Pale Malt', weight: 4.0, color: 5, type: 'base' },
+    { name: 'Crystal 80', weight: 0.5, color: 160, type: 'crystal' },
+    { name: 'Chocolate', weight: 0.3, color: 800, type: 'roasted' }
+  ];
+
+  const roWater: WaterProfile = {
+    calcium: 0,
+    magnesium: 0,
+    sodium: 0,
+    sulfate: 0,
+    chloride: 0,
+    bicarbonate: 0
+  };
+
+  const alkalineWater: WaterProfile = {
+    calcium: 20,
+    magnesium: 5,
+    sodium: 10,
+    sulfate: 15,
+    chloride: 10,
+    bicarbonate: 300
+  };
+
+  describe('Simple model', () => {
+    const grains = [{ color: 6, weight: 5 }];
+    const volumes = { total: 30, mash: 15, sparge: 15 };
+
+    test('Residual alkalinity raises pH and calcium lowers it', () => {
+      const ro = calculateMashPH_Simple(roWater, grains, volumes);
+      expect(calculateMashPH_Simple(alkalineWater, grains, volumes)).toBeGreaterThan(ro);
+      expect(calculateMashPH_Simple({ ...roWater, calcium: 100 }, grains, volumes)).toBeLessThan(ro);
+      // 100 ppm of RA as CaCO3 (122 ppm bicarbonate) is worth +0.3 pH
+      expect(calculateMashPH_Simple({ ...roWater, bicarbonate: 122 }, grains, volumes) - ro).toBeCloseTo(0.3, 2);
+    });
+  });
+
+  describe('Advanced (charge balance) model', () => {
+    test('RO water with pale malt stays near distilled-water mash pH', () => {
+      const ph = calculateMashPH_Advanced(roWater, baseGrainBill, 3.0, 65);
+      expect(ph).toBeGreaterThan(5.6);
+      expect(ph).toBeLessThan(5.8);
+    });
+
+    test('Alkalinity raises pH and dark malts lower it', () => {
+      const pale = calculateMashPH_Advanced(roWater, baseGrainBill, 3.0, 65);
+      const alkaline = calculateMashPH_Advanced(alkalineWater, baseGrainBill, 3.0, 65);
+      const dark = calculateMashPH_Advanced(roWater, darkGrainBill, 3.0, 65);
+      expect(alkaline).toBeGreaterThan(pale);
+      expect(dark).toBeLessThan(pale);
+    });
+
+    test('Detailed result converges and reports speciation', () => {
+      const result = calculateMashPH_AdvancedDetailed(alkalineWater, baseGrainBill, 3.0, 65);
+      expect(Math.abs(result.chargeBalance)).toBeLessThan(0.001);
+      expect(result.ionicStrength).toBeGreaterThan(0);
+      expect(result.activityCoefficients.divalent).toBeLessThan(result.activityCoefficients.monovalent);
+      // At mash pH most carbonate has been converted to carbonic acid
+      expect(result.species.H2CO3).toBeGreaterThan(result.species.HCO3);
+      expect(result.species.H).toBeCloseTo(Math.pow(10, -result.pH) / result.activityCoefficients.monovalent, 10);
+      // Malt phosphate (10 mmol/kg at 3 L/kg) is mostly H2PO4- at mash pH
+      const phosphate = result.species.H3PO4 + result.species.H2PO4 + result.species.HPO4 + result.species.PO4;
+      expect(phosphate).toBeCloseTo(0.01 / 3, 8);
+      expect(result.species.H2PO4 / phosphate).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('Grain database (Bru\'n Water style) model', () => {
+    test('Resolves grains by id, name, fuzzy name and color', () => {
+      const result = calculateMashPH_GrainDatabaseDetailed(roWater, [
+        { id: 'maris_otter', name: 'MO', weight: 4, color: 7, type: 'base' },
+        { name: 'Munich', weight: 0.5, color: 17, type: 'base' },
+        { name: 'Simpsons Crystal 60L', weight: 0.3, color: 118, type: 'crystal' },
+        { name: 'House Special', weight: 0.2, color: 400, type: 'roasted' }
+      ], 3.0);
+
+      expect(result.grains.map(g => g.matchedBy)).toEqual(['id', 'name', 'fuzzy', 'color']);
+      expect(result.grains[0].id).toBe('maris_otter');
+      expect(result.grains[2].id).toBe('crystal_60');
+      expect(result.grains[3].id).toBeUndefined();
+    });
+
+    test('RO water mash lands on the buffer-weighted DI pH', () => {
+      const result = calculateMashPH_GrainDatabaseDetailed(roWater, baseGrainBill, 3.0);
+      expect(result.grains[0].id).toBe('pilsner');
+      expect(result.pH).toBeCloseTo(5.72, 2);
+      expect(result.residualAlkalinity).toBe(0);
+    });
+
+    test('Residual alkalinity shifts pH by RA / total buffer capacity', () => {
+      const result = calculateMashPH_GrainDatabaseDetailed(alkalineWater, baseGrainBill, 3.0);
+      expect(result.residualAlkalinity).toBeGreaterThan(0);
+      expect(result.pH).toBeCloseTo(result.distilledWaterPH + result.residualAlkalinity / result.bufferCapacity, 6);
+
+      const dark = calculateMashPH_GrainDatabaseDetailed(roWater, darkGrainBill, 3.0);
+      expect(dark.pH).toBeLessThan(result.distilledWaterPH);
+    });
+  });
+
+  describe('Residual alkalinity', () => {
+    // Same Kolbach RA three ways: 35 ppm calcium offsets as much as 42.5 ppm magnesium or 30.5 ppm bicarbonate
+    const waters: WaterProfile[] = [
+      { ...alkalineWater, calcium: alkalineWater.calcium + 35 },
+      { ...alkalineWater, magnesium: alkalineWater.magnesium + 42.5 },
+      { ...alkalineWater, calcium: alkalineWater.calcium + 70, bicarbonate: alkalineWater.bicarbonate + 30.5 }
+    ];
+    const volumes = { total: 30, mash: 15, sparge: 15 };
+
+    test('Every model reads the same RA as the metrics', () => {
+      const ra = residualAlkalinity(waters[0]);
+      for (const water of waters) expect(residualAlkalinity(water)).toBeCloseTo(ra, 1);
+
+      const models = [
+        (w: WaterProfile) => calculateMashPH_Simple(w, baseGrainBill, volumes),
+        (w: WaterProfile) => calculateMashPH_Kaiser(w, baseGrainBill, 3.0, 65),
+        (w: WaterProfile) => calculateMashPH_GrainDatabase(w, baseGrainBill, 3.0)
+      ];
+      for (const model of models) {
+        for (const water of waters) expect(model(water)).toBeCloseTo(model(waters[0]), 3);
+      }
+      // The carbonate speciation is not linear in bicarbonate, but the hardness share of RA is
+      expect(calculateMashPH_Advanced(waters[1], baseGrainBill, 3.0, 65)).toBeCloseTo(calculateMashPH_Advanced(waters[0], baseGrainBill, 3.0, 65), 2);
+
+      const liters = baseGrainBill[0].weight * 3.0;
+      expect(calculateMashPH_GrainDatabaseDetailed(waters[0], baseGrainBill, 3.0).residualAlkalinity).toBeCloseTo(ra / 50.04 * liters, 6);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect } from '@jest/globals';
+import { runPipeline, PH_MODELS, MashPHModel } from '../v2/calculations/pipeline';
+import { applyStageSalts } from '../v2/calculations/staged';
+import calculate from '../../api/calculate';
+import validate from '../../api/validate';
+import { WaterProfile, Volumes, GrainBillItem } from '../core/types';
+
+// Runs a handler in process and returns its JSON body
+function call(handler: (req: any, res: any) => unknown, body: unknown): any {
+  let sent: unknown;
+  const res = {
+    setHeader() {},
+    status() {
+      return { json: (b: unknown) => { sent = b; }, end() {} };
+    }
+  };
+  handler({ method: 'POST', body }, res);
+  return sent;
+}
+
+describe('v2 calculation pipeline', () => {
+  const volumes: Volumes = { total: 30, mash: 18, sparge: 12 };
+  const sourceWater: WaterProfile = { calcium: 30, magnesium: 5, sodium: 12, sulfate: 25, chloride: 20, bicarbonate: 150 };
+  const grainBill: GrainBillItem[] = [
+    { name: 'Pilsner', weight: 4.5, color: 3.5, type: 'base' },
+    { name: 'Munich', weight: 0.5, color: 20, type: 'base' }
+  ];
+
+  test('Flat salts dissolve by volume mode, staged additions per stage', () => {
+    const additions = { salts: { gypsum: 4 } };
+    const mash = runPipeline({ sourceWater, grainBill, volumes, additions });
+    const total = runPipeline({ sourceWater, grainBill, volumes, additions, volumeMode: 'total' });
+    expect(mash.afterSalts.calcium - sourceWater.calcium).toBeCloseTo((total.afterSalts.calcium - sourceWater.calcium) * 30 / 18, 6);
+
+    const staged = runPipeline({ sourceWater, grainBill, volumes, additions: { mash: { salts: { gypsum: 4 } } } });
+    expect(staged.afterSalts).toEqual(applyStageSalts(sourceWater, { gypsum: 4 }, volumes, 'mash'));
+    expect(staged.volumeMode).toBe('mash');
+    expect(staged.staged).toEqual({ mash: { salts: { gypsum: 4 } } });
+  });
+
+  test('Chalk dissolves the same way flat, by total volume and staged', () => {
+    const chalk = { calcium_carbonate: 0.3 };
+    const flat = runPipeline({ sourceWater, grainBill, volumes, additions: { salts: chalk } });
+    const staged = runPipeline({ sourceWater, grainBill, volumes, additions: { mash: { salts: chalk } } });
+    expect(flat.afterSalts.bicarbonate).toBeGreaterThan(sourceWater.bicarbonate);
+    expect(flat.afterSalts).toEqual(staged.afterSalts);
+
+    const total = runPipeline({ sourceWater, grainBill, volumes, additions: { salts: chalk }, volumeMode: 'total' });
+    const mashShare = total.afterSalts.bicarbonate - sourceWater.bicarbonate;
+    expect(mashShare).toBeCloseTo((flat.afterSalts.bicarbonate - sourceWater.bicarbonate) * 18 / 30, 6);
+    expect(total.profiles.sparge.bicarbonate - sourceWater.bicarbonate).toBeCloseTo(mashShare, 6);
+
+    const undissolved = runPipeline({ sourceWater, grainBill, volumes, additions: { mash: { salts: chalk } }, saltOptions: { assumeCarbonateDissolution: false } });
+    expect(undissolved.afterSalts.bicarbonate).toBe(sourceWater.bicarbonate);
+  });
+
+  test('Acids lower the mash pH; without acids a target is solved for', () => {
+    const plain = runPipeline({ sourceWater, grainBill, volumes, additions: { salts: {} } });
+    const acidified = runPipeline({ sourceWater, grainBill, volumes, additions: { salts: {}, acids: { lactic_88: 3 } } });
+    expect(acidified.mashWater.bicarbonate).toBeLessThan(plain.mashWater.bicarbonate);
+    expect(acidified.mashPH).toBeLessThan(plain.mashPH);
+    expect(acidified.acidRecommendation).toBeUndefined();
+
+    const targeted = runPipeline({ sourceWater, grainBill, volumes, targetMashPH: 5.3 });
+    expect(targeted.acidRecommendation?.lactic_88).toBeGreaterThan(0);
+    expect(targeted.mashPH).toBeCloseTo(5.3, 2);
+
+    // A window only steps in above its maximum
+    const inWindow = runPipeline({ sourceWater, grainBill, volumes, mashPHWindow: { max: plain.beforeAcidPH + 0.1, target: 5.3 } });
+    expect(inWindow.acidRecommendation).toBeUndefined();
+  });
+
+  test('Mineral acids add their anion to the mash and sparge water', () => {
+    const lactic = call(calculate, { sourceWater, grainBill, volumes, additions: { salts: {}, acids: { lactic_88: 2 } } });
+    const sulfuric = call(calculate, { sourceWater, grainBill, volumes, additions: { salts: {}, acids: { sulfuric_10: 10 } } });
+    // 10 ml of 10% sulfuric acid (1.086 g/ml, 1.107 mmol/ml) in 18 L: 1.107 × 10 / 18 × 96.06 g/mol
+    expect(sulfuric.achieved.sulfate - sourceWater.sulfate).toBeCloseTo(59.1, 0);
+    expect(lactic.achieved.sulfate).toBe(sourceWater.sulfate);
+    expect(sulfuric.metrics.final.sulfateChlorideRatio).toBeGreaterThan(lactic.metrics.final.sulfateChlorideRatio);
+    expect(sulfuric.profiles.kettle.sulfate).toBeGreaterThan(sourceWater.sulfate);
+
+    const staged = runPipeline({ sourceWater, grainBill, volumes, additions: { sparge: { acids: { hydrochloric_10: 5 } } } });
+    expect(staged.profiles.sparge.chloride).toBeGreaterThan(sourceWater.chloride);
+    expect(staged.profiles.mash.chloride).toBe(sourceWater.chloride);
+  });
+
+  test('pH models are pluggable by name or function', () => {
+    for (const name of Object.keys(PH_MODELS) as (keyof typeof PH_MODELS)[]) {
+      const result = runPipeline({ sourceWater, grainBill, volumes, phModel: name });
+      expect(result.mashPH).toBeCloseTo(PH_MODELS[name](result.mashWater, { grainBill, volumes, mashThickness: result.mashThickness, temperature: 65 }), 10);
+    }
+    const flat: MashPHModel = (water) => 5.8 - water.calcium / 1000;
+    const custom = runPipeline({ sourceWater, grainBill, volumes, phModel: flat, targetMashPH: 5.6 });
+    expect(custom.beforeAcidPH).toBeCloseTo(5.77, 6);
+    expect(custom.acidRecommendation).toBeUndefined(); // acid does not move this model
+    expect(runPipeline({ sourceWater, grainBill, volumes, phModel: 'advanced' }).equilibrium).toBeDefined();
+    expect(runPipeline({ sourceWater, grainBill, volumes, phModel: 'brunwater' }).grainMatches).toHaveLength(2);
+
+    // Unnamed grains are matched by color, not fuzzy-matched to the first database entry
+    const unnamed = [{ name: '', weight: 4, color: 6, type: 'base' as const }, { weight: 0.3, color: 900, type: 'roasted' } as GrainBillItem];
+    const matches = runPipeline({ sourceWater, grainBill: unnamed, volumes, phModel: 'brunwater' }).grainMatches;
+    expect(matches?.map((m) => m.matchedBy)).toEqual(['color', 'color']);
+    expect(matches?.[1].matchedId).toBeUndefined();
+  });
+
+  test('calculate, validate and the library agree for the same input', () => {
+    const additions = { salts: { gypsum: 3, calcium_chloride: 2 }, acids: { lactic_88: 2 } };
+    for (const volumeMode of ['mash', 'total'] as const) {
+      for (const phModel of ['simple', 'kaiser', 'advanced', 'brunwater'] as const) {
+        const request = { sourceWater, grainBill, volumes, volumeMode, phModel };
+        const library = runPipeline({ ...request, additions });
+        const calculated = call(calculate, { ...request, additions });
+        const validated = call(validate, { ...request, plannedAdditions: additions });
+
+        expect(calculated.predictions.mashPH).toBe(library.mashPH);
+        expect(validated.predictions.mashPH).toBe(library.mashPH);
+        expect(calculated.achieved).toEqual(library.final);
+        expect(validated.metrics).toEqual(library.metrics);
+        expect(calculated.metrics).toEqual(library.metrics);
+        expect(validated.profiles).toEqual(calculated.profiles);
+        expect(validated.equilibrium).toEqual(calculated.equilibrium);
+      }
+    }
+  });
+});
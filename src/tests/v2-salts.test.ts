@@ -0,0 +1,115 @@
+import { describe, test, expect } from '@jest/globals';
+import { SALTS, formulaMass, resolveSaltCatalog } from '../v2/data/salts';
+import { SALTS as LEGACY_SALTS } from '../core/constants';
+import { calculateSaltContribution } from '../v2/calculations/ppm';
+import { optimizeWaterNNLS } from '../v2/calculations/optimize';
+import { planStagedAdditions } from '../v2/calculations/staged';
+import { WaterProfile, Volumes } from '../core/types';
+
+describe('v2 salt registry', () => {
+  const volumes: Volumes = { total: 30, mash: 20, sparge: 10 };
+
+  test('Molar masses come from the formula, hydrate water included', () => {
+    expect(formulaMass('CaCl2')).toBeCloseTo(110.98, 2);
+    expect(formulaMass('CaCl2·2H2O')).toBeCloseTo(147.01, 2);
+    expect(formulaMass('CaCl₂·2H₂O')).toBeCloseTo(147.01, 2);
+    expect(formulaMass('Ca(OH)2')).toBeCloseTo(74.09, 2);
+    expect(() => formulaMass('CaXy2')).toThrow('Unknown element');
+  });
+
+  test('Hydration state changes ppm per gram', () => {
+    const dihydrate = SALTS.calcium_chloride;
+    const anhydrous = SALTS.calcium_chloride_anhydrous;
+    expect(dihydrate.ionsPPMPerGram).toEqual({ calcium: 272.6, chloride: 482.3 });
+    expect(anhydrous.ionsPPMPerGram).toEqual({ calcium: 361.1, chloride: 638.9 });
+    expect(anhydrous.molarMass! / dihydrate.molarMass!).toBeCloseTo(0.755, 3);
+    expect(SALTS.calcium_carbonate.ionsPPMPerGram).toEqual({ calcium: 400.4, carbonate: 599.6 });
+  });
+
+  test('Legacy models compute with the same table', () => {
+    expect(LEGACY_SALTS).toBe(SALTS);
+  });
+
+  test('Custom salts and mineral concentrates resolve alongside the built-ins', () => {
+    const { catalog, errors } = resolveSaltCatalog({
+      burton_concentrate: { name: 'Burton concentrate', ionsPPMPerGram: { calcium: 200, sulfate: 480 } },
+      sea_salt: { formula: 'NaCl', ions: { sodium: 1, chloride: 1 } }
+    });
+    expect(errors).toEqual([]);
+    expect(catalog!.gypsum).toBe(SALTS.gypsum);
+    expect(catalog!.sea_salt.ionsPPMPerGram).toEqual(SALTS.sodium_chloride.ionsPPMPerGram);
+    expect(catalog!.burton_concentrate.custom).toBe(true);
+
+    const c = calculateSaltContribution(catalog!.burton_concentrate, 4, volumes, 'mash');
+    expect(c.calcium).toBeCloseTo(40, 6);
+    expect(c.sulfate).toBeCloseTo(96, 6);
+
+    // Optimizers dose custom salts from the same catalog
+    const ro: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 };
+    const target: WaterProfile = { calcium: 40, magnesium: 0, sodium: 0, sulfate: 96, chloride: 0, bicarbonate: 0 };
+    const result = optimizeWaterNNLS(ro, target, volumes, 'mash', { allowedSalts: ['burton_concentrate'], catalog });
+    expect(result.additions.burton_concentrate).toBeCloseTo(4, 1);
+
+    // Staged plans place custom salts by the ions they release
+    const plan = planStagedAdditions({ burton_concentrate: 3 }, volumes, catalog);
+    expect(plan.additions.sparge?.salts?.burton_concentrate).toBe(1);
+  });
+
+  test('Invalid custom salts are reported', () => {
+    const { catalog, errors } = resolveSaltCatalog({
+      gypsum: { ionsPPMPerGram: { calcium: 100 } },
+      bad_ion: { ionsPPMPerGram: { potassium: 100 } as any },
+      too_heavy: { ionsPPMPerGram: { calcium: 600, chloride: 600 } },
+      no_ions: { formula: 'NaCl' },
+      bad_formula: { formula: 'NaQ', ions: { sodium: 1 } },
+      impossible: { formula: 'NaCl', ions: { sodium: 2, chloride: 2 } }
+    });
+    expect(catalog).toBeUndefined();
+    expect(errors).toEqual([
+      'gypsum: already a built-in salt',
+      'bad_ion: unknown ion potassium in ionsPPMPerGram',
+      'too_heavy: ionsPPMPerGram adds up to more than 1000 mg per gram',
+      'no_ions: give either ionsPPMPerGram, or formula and ions',
+      'bad_formula: Unknown element Q in formula NaQ',
+      'impossible: the ions weigh more than NaCl'
+    ]);
+  });
+
+  test('Stock solutions are dosed in ml through the same contribution path', () => {
+    const cacl2 = SALTS.calcium_chloride_33;
+    expect(cacl2.unit).toBe('ml');
+    expect(cacl2.ionsPPMPerGram).toEqual({ calcium: 157.3, chloride: 278.3 });
+
+    // 5 ml of 33% solution carry 2.18 g anhydrous CaCl2, as much as 2.88 g of the dihydrate
+    const fromSolution = calculateSaltContribution(cacl2, 5, volumes, 'mash');
+    const fromDry = calculateSaltContribution(SALTS.calcium_chloride, 2.885, volumes, 'mash');
+    expect(fromSolution.calcium).toBeCloseTo(fromDry.calcium, 1);
+    expect(fromSolution.chloride).toBeCloseTo(fromDry.chloride, 1);
+  });
+
+  test('Optimizers express stock solutions in ml, and request-defined solutions resolve', () => {
+    const { catalog, errors } = resolveSaltCatalog(undefined, {
+      epsom_10: { salt: 'epsom_salt', concentration: 10, density: 1.05 },
+      bad: { salt: 'calcium_chloride_33', concentration: 120, density: 0 }
+    });
+    expect(catalog).toBeUndefined();
+    expect(errors).toEqual([
+      'bad: calcium_chloride_33 is itself a solution',
+      'bad: concentration must be a percentage (w/w) above 0 and at most 100',
+      'bad: density must be greater than 0 (g/ml)'
+    ]);
+
+    const ok = resolveSaltCatalog(undefined, { epsom_10: { salt: 'epsom_salt', concentration: 10, density: 1.05 } }).catalog!;
+    expect(ok.epsom_10.ionsPPMPerGram.magnesium).toBeCloseTo(98.6 * 0.105, 2);
+
+    const ro: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 };
+    const target: WaterProfile = { calcium: 50, magnesium: 0, sodium: 0, sulfate: 0, chloride: 88.5, bicarbonate: 0 };
+    const result = optimizeWaterNNLS(ro, target, volumes, 'mash', { allowedSalts: ['calcium_chloride_33'], catalog: ok });
+    // 50 ppm Ca in 20 L needs 1000 mg: 6.4 ml of the solution
+    expect(result.additions.calcium_chloride_33).toBeCloseTo(6.4, 1);
+
+    // maxSaltAmount still counts grams of salt, 2 g is 4.6 ml
+    const capped = optimizeWaterNNLS(ro, target, volumes, 'mash', { allowedSalts: ['calcium_chloride_33'], maxSaltAmount: 2, catalog: ok });
+    expect(capped.additions.calcium_chloride_33).toBe(4.5);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect } from '@jest/globals';
+import { validateSchema } from '../v2/schemas/json-schema';
+import { CALCULATE_REQUEST_SCHEMA, VALIDATE_REQUEST_SCHEMA, PROFILES_QUERY_SCHEMA, REQUEST_SCHEMAS, additionErrors, saltIdErrors } from '../v2/schemas/requests';
+import { SALTS, resolveSaltCatalog } from '../v2/data/salts';
+
+describe('v2 request schemas', () => {
+  const sourceWater = { calcium: 25, magnesium: 8, sodium: 10, sulfate: 50, chloride: 30, bicarbonate: 80 };
+  const grainBill = [{ name: 'Pilsner Malt', weight: 5, color: 3, type: 'base' }];
+  const volumes = { total: 30, mash: 20, sparge: 10 };
+
+  test('Valid requests pass', () => {
+    expect(validateSchema(CALCULATE_REQUEST_SCHEMA, { sourceWater, grainBill, volumes, additions: { salts: { gypsum: 2 } } })).toEqual([]);
+    expect(validateSchema(CALCULATE_REQUEST_SCHEMA, { sourceWater, grainBill, batch: { batchSize: 20 }, mode: 'auto', style: 'neipa', units: 'imperial' })).toEqual([]);
+    expect(validateSchema(VALIDATE_REQUEST_SCHEMA, { sourceWater, grainBill, volumes, plannedAdditions: { mash: { salts: { gypsum: 1 } }, boil: { salts: { calcium_chloride: 1 } } } })).toEqual([]);
+    expect(validateSchema(PROFILES_QUERY_SCHEMA, {})).toEqual([]);
+  });
+
+  test('Nonsense values are reported per field', () => {
+    const errors = validateSchema(CALCULATE_REQUEST_SCHEMA, {
+      sourceWater: { ...sourceWater, calcium: NaN },
+      grainBill: [{ name: 'Pilsner Malt', color: 3 }],
+      volumes: { ...volumes, mash: 0 },
+      additions: { salts: { gypsum: -2 } },
+      phModel: 'magic'
+    });
+    expect(errors).toEqual([
+      { path: 'sourceWater.calcium', code: 'type', message: 'sourceWater.calcium must be a number, not NaN' },
+      { path: 'grainBill[0].weight', code: 'required', message: 'grainBill[0].weight is required' },
+      { path: 'volumes.mash', code: 'exclusiveMinimum', message: 'volumes.mash must be greater than 0' },
+      { path: 'additions.salts.gypsum', code: 'minimum', message: 'additions.salts.gypsum must be at least 0' },
+      { path: 'phModel', code: 'enum', message: 'phModel must be one of simple, kaiser, advanced, brunwater' }
+    ]);
+  });
+
+  test('Missing fields, misplaced additions and volumes or batch', () => {
+    expect(validateSchema(VALIDATE_REQUEST_SCHEMA, { sourceWater, grainBill: [] })).toEqual([
+      { path: 'body', code: 'required', message: 'one of volumes, batch is required' },
+      { path: 'plannedAdditions', code: 'required', message: 'plannedAdditions is required' },
+      { path: 'grainBill', code: 'minItems', message: 'grainBill needs at least 1 item' }
+    ]);
+    expect(validateSchema(CALCULATE_REQUEST_SCHEMA, { sourceWater, grainBill, volumes, additions: { kettle: { salts: {} } } })).toEqual([
+      { path: 'additions.kettle', code: 'unknown_field', message: 'additions.kettle is not a known field' }
+    ]);
+    expect(validateSchema(CALCULATE_REQUEST_SCHEMA, null).map((e) => e.code)).toContain('type');
+  });
+
+  test('Unknown salt and acid ids are checked against the request catalog', () => {
+    const { catalog } = resolveSaltCatalog({ burton: { ionsPPMPerGram: { calcium: 200, sulfate: 480 } } });
+    const additions = { mash: { salts: { burton: 2, gypsm: 1 }, acids: { lactic_88: 1, vinegar: 2 } }, salts: { chalk: 1 } };
+    expect(additionErrors(additions, catalog!, 'additions')).toEqual([
+      { path: 'additions.salts.chalk', code: 'unknown_salt', message: 'chalk is not a known salt' },
+      { path: 'additions.mash.salts.gypsm', code: 'unknown_salt', message: 'gypsm is not a known salt' },
+      { path: 'additions.mash.acids.vinegar', code: 'unknown_acid', message: 'vinegar is not a known acid' }
+    ]);
+    expect(saltIdErrors(['gypsum', 'burton'], SALTS, 'allowedSalts')).toEqual([
+      { path: 'allowedSalts[1]', code: 'unknown_salt', message: 'burton is not a known salt' }
+    ]);
+  });
+
+  test('Schemas are plain JSON Schema documents', () => {
+    const exported = JSON.parse(JSON.stringify(REQUEST_SCHEMAS));
+    expect(Object.keys(exported)).toEqual(['calculate', 'validate', 'profiles']);
+    expect(exported.calculate.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(exported.calculate.properties.grainBill.items.required).toEqual(['name', 'weight', 'color']);
+    expect(exported.profiles.properties.type.enum).toEqual(['water', 'style']);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import { calculateSpargeAcidification } from '../v2/calculations/sparge';
+import spargeHandler from '../../api/sparge';
+
+// POSTs to the handler in process and returns its status and JSON body
+function post(body: unknown): { status?: number; body?: any } {
+  let sent: { status?: number; body?: any } = {};
+  const res = {
+    setHeader() {},
+    status(status: number) {
+      return { json: (b: unknown) => { sent = { status, body: b }; }, end() {} };
+    }
+  };
+  spargeHandler({ method: 'POST', body } as any, res as any);
+  return sent;
+}
+import { WaterProfile } from '../core/types';
+
+describe('v2 Sparge Acidification', () => {
+  const tapWater: WaterProfile = {
+    calcium: 60,
+    magnesium: 10,
+    sodium: 15,
+    sulfate: 40,
+    chloride: 30,
+    bicarbonate: 200
+  };
+
+  test('Lactic dose for alkaline tap water is in the Bru\'n Water range', () => {
+    const result = calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 15, targetPH: 5.8 });
+    expect(result.ml).toBeGreaterThan(2.5);
+    expect(result.ml).toBeLessThan(4);
+    expect(result.water.bicarbonate).toBeLessThan(tapWater.bicarbonate);
+    expect(result.alkalinity.after).toBeLessThan(result.alkalinity.before);
+  });
+
+  test('Dose scales with volume', () => {
+    const small = calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 10, targetPH: 5.6 });
+    const large = calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 20, targetPH: 5.6 });
+    expect(large.ml).toBeCloseTo(small.ml * 2, 6);
+  });
+
+  test('Mineral acids add their anion and shift the sulfate:chloride ratio', () => {
+    const sulfuric = calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 15, acid: 'sulfuric_10' });
+    const hydrochloric = calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 15, acid: 'hydrochloric_10' });
+    expect(sulfuric.changes.sulfate).toBeGreaterThan(0);
+    expect(sulfuric.changes.chloride).toBe(0);
+    expect(hydrochloric.changes.chloride).toBeGreaterThan(0);
+    expect(sulfuric.sulfateChlorideRatio.after!).toBeGreaterThan(sulfuric.sulfateChlorideRatio.before!);
+    // Every tracked ion is reported; none of the acids carry sodium
+    for (const result of [sulfuric, hydrochloric]) {
+      expect(Object.keys(result.changes).sort()).toEqual(['bicarbonate', 'chloride', 'sodium', 'sulfate']);
+      expect(result.changes.sodium).toBe(0);
+    }
+  });
+
+  test('No acid needed when already at or below target', () => {
+    const result = calculateSpargeAcidification({ water: tapWater, startPH: 5.5, volumeL: 15, targetPH: 5.8 });
+    expect(result.ml).toBe(0);
+    expect(result.water.bicarbonate).toBe(tapWater.bicarbonate);
+  });
+
+  test('Unknown acid throws', () => {
+    expect(() => calculateSpargeAcidification({ water: tapWater, startPH: 7.8, volumeL: 15, acid: 'vinegar' })).toThrow('Unknown acid');
+  });
+
+  test('The endpoint answers a missing or non-object body with 400', () => {
+    for (const body of [undefined, null, 'water', [tapWater]]) {
+      expect(post(body)).toMatchObject({ status: 400, body: { error: 'Invalid request' } });
+    }
+    const answered = post({ spargeWater: tapWater, startingPH: 7.8, volume: 15 });
+    expect(answered.status).toBe(200);
+    expect(answered.body.changes.sodium).toBe(0);
+  });
+});
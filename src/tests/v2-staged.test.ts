@@ -0,0 +1,78 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  isStagedAdditions,
+  toStagedAdditions,
+  applyStageSalts,
+  calculateStagedProfiles,
+  planStagedAdditions
+} from '../v2/calculations/staged';
+import { calculate } from '../v2';
+import { WaterProfile, Volumes } from '../core/types';
+
+describe('v2 staged additions', () => {
+  const volumes: Volumes = { total: 30, mash: 20, sparge: 10 };
+  const tapWater: WaterProfile = { calcium: 20, magnesium: 4, sodium: 10, sulfate: 20, chloride: 15, bicarbonate: 100 };
+
+  test('Recognizes per-stage additions and wraps flat ones as mash', () => {
+    expect(isStagedAdditions({ mash: { salts: { gypsum: 2 } } })).toBe(true);
+    expect(isStagedAdditions({ salts: { gypsum: 2 } })).toBe(false);
+    expect(toStagedAdditions({ salts: { gypsum: 2 } })).toEqual({ mash: { salts: { gypsum: 2 } } });
+  });
+
+  test('Salts are dissolved in their own stage volume', () => {
+    const mash = applyStageSalts(tapWater, { gypsum: 2 }, volumes, 'mash');
+    const sparge = applyStageSalts(tapWater, { gypsum: 2 }, volumes, 'sparge');
+    const boil = applyStageSalts(tapWater, { gypsum: 2 }, volumes, 'boil');
+    const added = (w: WaterProfile) => w.calcium - tapWater.calcium;
+    expect(added(sparge)).toBeCloseTo(added(mash) * 2, 6);
+    expect(added(boil)).toBeCloseTo((added(mash) * 20) / 30, 6);
+  });
+
+  test('Kettle is the volume-weighted mix of mash and sparge plus boil salts', () => {
+    const additions = {
+      mash: { salts: { gypsum: 3 } },
+      sparge: { salts: { calcium_chloride: 1 } },
+      boil: { salts: { sodium_chloride: 1 } }
+    };
+    const mash = applyStageSalts(tapWater, additions.mash.salts, volumes, 'mash');
+    const profiles = calculateStagedProfiles(mash, tapWater, additions, volumes);
+    const boilSodium = applyStageSalts({ ...tapWater, sodium: 0 }, additions.boil.salts, volumes, 'boil').sodium;
+
+    expect(profiles.mash).toEqual(mash);
+    expect(profiles.sparge.chloride).toBeGreaterThan(tapWater.chloride);
+    expect(profiles.kettle.calcium).toBeCloseTo((profiles.mash.calcium * 20 + profiles.sparge.calcium * 10) / 30, 6);
+    expect(profiles.kettle.sodium).toBeCloseTo(tapWater.sodium + boilSodium, 6);
+  });
+
+  test('Excess mash acid neutralizes sparge alkalinity in the kettle', () => {
+    const mash = { ...tapWater, bicarbonate: -50 };
+    const profiles = calculateStagedProfiles(mash, tapWater, {}, volumes);
+    expect(profiles.mash.bicarbonate).toBe(0);
+    expect(profiles.kettle.bicarbonate).toBeCloseTo((-50 * 20 + 100 * 10) / 30, 6);
+  });
+
+  test('Plans alkaline salts in the mash, calcium salts by volume and flavor salts in the boil', () => {
+    const { additions, rationale } = planStagedAdditions(
+      { gypsum: 6, calcium_chloride: 3, baking_soda: 1, sodium_chloride: 0.5, epsom_salt: 1 },
+      volumes
+    );
+    expect(additions.mash?.salts).toEqual({ gypsum: 4, calcium_chloride: 2, baking_soda: 1 });
+    expect(additions.sparge?.salts).toEqual({ gypsum: 2, calcium_chloride: 1 });
+    expect(additions.boil?.salts).toEqual({ sodium_chloride: 0.5, epsom_salt: 1 });
+    expect(rationale).toHaveLength(5);
+  });
+
+  test('Staged and total auto mode dose for the whole batch', () => {
+    const ro: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 };
+    // Gypsum alone hits both ions
+    const targetWater: WaterProfile = { calcium: 100, magnesium: 0, sodium: 0, sulfate: 240, chloride: 0, bicarbonate: 0 };
+    const grainBill = [{ name: 'Pilsner', weight: 5, color: 3.5, type: 'base' as const }];
+    for (const volumeMode of ['staged', 'total'] as const) {
+      const result = calculate({ sourceWater: ro, grainBill, volumes, mode: 'auto', targetWater, volumeMode });
+      expect(result.profiles.kettle.calcium).toBeGreaterThan(90);
+      expect(result.profiles.kettle.calcium).toBeLessThan(110);
+      expect(result.profiles.kettle.sulfate).toBeGreaterThan(215);
+      expect(result.profiles.kettle.sulfate).toBeLessThan(265);
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from '@jest/globals';
+import { getBeerStyle } from '../v2/data/styles';
+import { styleTargets, styleReport } from '../v2/calculations/styles';
+import { optimizeWaterSimple, optimizeWaterExact, optimizeWaterNNLS } from '../v2/calculations/optimize';
+import { WaterProfile, Volumes } from '../core/types';
+
+describe('v2 beer style ranges', () => {
+  const volumes: Volumes = { total: 30, mash: 20, sparge: 10 };
+  const roWater: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 };
+  const ipa = getBeerStyle('american-ipa')!;
+
+  test('Looks up styles by id in either spelling', () => {
+    expect(ipa.name).toBe('American IPA');
+    expect(getBeerStyle('american_ipa')).toBe(ipa);
+    expect(getBeerStyle('no-such-style')).toBeUndefined();
+  });
+
+  test('Builds band midpoints, ranges and the mash pH window', () => {
+    const goal = styleTargets(ipa);
+    expect(goal.target.calcium).toBe(125);
+    expect(goal.ranges.sulfate).toEqual([200, 350]);
+    expect(goal.ratioRange).toEqual({ min: 3, max: 5 });
+    expect(goal.mashPH).toEqual({ min: 5.2, max: 5.4, target: 5.3 });
+  });
+
+  test('Water anywhere inside the bands needs no salts', () => {
+    const goal = styleTargets(ipa);
+    const inBand: WaterProfile = { calcium: 105, magnesium: 6, sodium: 40, sulfate: 210, chloride: 65, bicarbonate: 45 };
+    expect(optimizeWaterExact(inBand, goal.target, volumes, 'mash', { targetRanges: goal.ranges, ratioRange: goal.ratioRange })).toEqual({});
+    expect(optimizeWaterSimple(inBand, goal.target, volumes, 'mash', { targetRanges: goal.ranges, ratioRange: goal.ratioRange })).toEqual({});
+    expect(optimizeWaterSimple(inBand, goal.target, volumes, 'mash', { ratioRange: goal.ratioRange })).not.toEqual({});
+  });
+
+  test('NNLS lands RO water inside every ion band', () => {
+    const goal = styleTargets(ipa);
+    const { residuals } = optimizeWaterNNLS(roWater, goal.target, volumes, 'mash', { targetRanges: goal.ranges, ratioRange: goal.ratioRange });
+    for (const residual of Object.values(residuals)) expect(residual).toBe(0);
+  });
+
+  test('Reports per-ion, ratio and mash pH status', () => {
+    const water: WaterProfile = { calcium: 90, magnesium: 10, sodium: 10, sulfate: 400, chloride: 50, bicarbonate: 20 };
+    const report = styleReport(ipa, water, 5.3);
+    expect(report.ions.calcium.status).toBe('low');
+    expect(report.ions.sulfate.status).toBe('high');
+    expect(report.ions.chloride.status).toBe('in-range');
+    expect(report.sulfateChlorideRatio).toEqual({ value: 8, min: 3, max: 5, status: 'high' });
+    expect(report.mashPH?.status).toBe('in-range');
+    expect(report.inRange).toBe(false);
+  });
+});
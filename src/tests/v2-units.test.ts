@@ -0,0 +1,62 @@
+import { describe, test, expect } from '@jest/globals';
+import { resolveUnits, toEBC, fromEBC, toMetric, fromMetric, normalizeRequest, outputWeight, METRIC_UNITS, IMPERIAL_UNITS } from '../v2/calculations/units';
+import { calculateRecipeVolumes } from '../v2/calculations/volumes';
+import { Volumes } from '../core/types';
+
+describe('v2 units', () => {
+  test('Systems resolve with single units overridden', () => {
+    expect(resolveUnits(undefined).units).toEqual(METRIC_UNITS);
+    expect(resolveUnits('imperial').units).toEqual(IMPERIAL_UNITS);
+    expect(resolveUnits({ system: 'imperial', volume: 'qt', color: 'lovibond' as any }).units)
+      .toEqual({ color: 'Lovibond', volume: 'qt', weight: 'lb' });
+    expect(resolveUnits({ weight: 'stone' as any, system: 'british' as any }).errors).toEqual([
+      'units.system must be metric or imperial, not "british"',
+      'units.weight must be one of kg, g, lb, oz'
+    ]);
+  });
+
+  test('Colors convert between EBC, SRM and Lovibond', () => {
+    expect(toEBC(10, 'SRM')).toBeCloseTo(19.7, 6);
+    expect(fromEBC(19.7, 'SRM')).toBeCloseTo(10, 6);
+    // 10 SRM ≈ 7.9 °L; the conversions round-trip
+    expect(fromEBC(19.7, 'Lovibond')).toBeCloseTo(7.94, 2);
+    expect(toEBC(fromEBC(120, 'Lovibond'), 'Lovibond')).toBeCloseTo(120, 6);
+    expect(toEBC(8, 'EBC')).toBe(8);
+  });
+
+  test('Volumes and rates convert to liters and kg and back', () => {
+    const imperial: Volumes = { total: 8, mash: 4, sparge: 4, grainAbsorption: 0.12, boilOff: 1 };
+    const metric = toMetric(imperial, IMPERIAL_UNITS);
+    expect(metric.total).toBeCloseTo(30.28, 2);
+    // gal/lb → L/kg
+    expect(metric.grainAbsorption).toBeCloseTo(1.0, 2);
+    expect(fromMetric(metric, IMPERIAL_UNITS)).toEqual(imperial);
+    // Metric output is left as calculated
+    expect(fromMetric({ total: 30.123456 }, METRIC_UNITS).total).toBe(30.123456);
+    expect(outputWeight(0.25, { ...METRIC_UNITS, weight: 'oz' })).toBe(8.82);
+  });
+
+  test('Batch parameters in imperial units give the same volumes as metric', () => {
+    const units = { ...IMPERIAL_UNITS, volume: 'qt' as const };
+    const batch = toMetric({ batchSize: 21.13, grainWeight: 11.02, mashThickness: 1.44, evaporationRate: 4.23 }, units);
+    const volumes = calculateRecipeVolumes(batch);
+    const metric = calculateRecipeVolumes({ batchSize: 20, grainWeight: 5, mashThickness: 3, evaporationRate: 4 });
+    expect(volumes.total).toBeCloseTo(metric.total, 0);
+    expect(volumes.mash).toBeCloseTo(metric.mash, 0);
+  });
+
+  test('Requests normalize volumes, batch and grain bill at the boundary', () => {
+    const body = {
+      units: 'imperial',
+      sourceWater: { calcium: 10 },
+      volumes: { total: 8, mash: 4, sparge: 4 },
+      grainBill: [{ name: 'Pale', weight: 10, color: 3, type: 'base' as const }]
+    };
+    const normalized = normalizeRequest(body, IMPERIAL_UNITS);
+    expect(normalized.sourceWater).toBe(body.sourceWater);
+    expect(normalized.volumes.mash).toBeCloseTo(15.14, 2);
+    expect(normalized.grainBill[0].weight).toBeCloseTo(4.536, 3);
+    expect(normalized.grainBill[0].color).toBeCloseTo(5.91, 2);
+    expect(normalizeRequest(body, METRIC_UNITS)).toBe(body);
+  });
+});
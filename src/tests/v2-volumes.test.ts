@@ -0,0 +1,94 @@
+import { describe, test, expect } from '@jest/globals';
+import { boilVolumes, concentrate, calculateRecipeVolumes, validateBatchParameters, resolveVolumes } from '../v2/calculations/volumes';
+import { calculateStagedProfiles, distributeByMode, applyStageSalts } from '../v2/calculations/staged';
+import { WaterProfile, Volumes } from '../core/types';
+
+describe('v2 volume losses', () => {
+  const tapWater: WaterProfile = { calcium: 40, magnesium: 5, sodium: 10, sulfate: 60, chloride: 30, bicarbonate: 50 };
+  const volumes: Volumes = { total: 32, mash: 18, sparge: 14, grainAbsorption: 1, boilOff: 4, deadSpace: 1.5 };
+
+  test('Tracks water through absorption, boil-off and dead space', () => {
+    const v = boilVolumes(volumes, 6);
+    expect(v.collected).toBe(32);
+    expect(v.absorbed).toBe(6);
+    expect(v.preBoil).toBe(26);
+    expect(v.postBoil).toBe(22);
+    expect(v.intoFermenter).toBe(20.5);
+    expect(v.concentrationFactor).toBeCloseTo(26 / 22, 10);
+  });
+
+  test('Without loss fields nothing is lost or concentrated', () => {
+    const v = boilVolumes({ total: 30, mash: 20, sparge: 10 }, 5);
+    expect(v.preBoil).toBe(30);
+    expect(v.intoFermenter).toBe(30);
+    expect(v.concentrationFactor).toBe(1);
+  });
+
+  test('Boil-off concentrates every ion by the same factor', () => {
+    const c = concentrate(tapWater, 1.25);
+    expect(c.calcium).toBe(50);
+    expect(c.sulfate).toBe(75);
+    expect(c.bicarbonate).toBe(62.5);
+  });
+
+  test('Post-boil profile is the kettle concentrated by evaporation', () => {
+    const additions = distributeByMode({ gypsum: 4 }, 'mash', volumes);
+    const mash = applyStageSalts(tapWater, additions.mash?.salts, volumes, 'mash');
+    const profiles = calculateStagedProfiles(mash, tapWater, additions, volumes, { grainKg: 6 });
+
+    expect(profiles.sparge).toEqual(tapWater);
+    expect(profiles.kettle.sulfate).toBeCloseTo((mash.sulfate * 18 + tapWater.sulfate * 14) / 32, 6);
+    expect(profiles.postBoil.sulfate).toBeCloseTo(profiles.kettle.sulfate * (26 / 22), 6);
+  });
+
+  test('Total mode treats mash and sparge water alike', () => {
+    const additions = distributeByMode({ gypsum: 3.2 }, 'total', volumes);
+    const mash = applyStageSalts(tapWater, additions.mash?.salts, volumes, 'mash');
+    const profiles = calculateStagedProfiles(mash, tapWater, additions, volumes);
+    expect(profiles.sparge.calcium).toBeCloseTo(profiles.mash.calcium, 6);
+    expect(profiles.kettle.calcium).toBeCloseTo(profiles.mash.calcium, 6);
+  });
+});
+
+describe('v2 recipe volume calculator', () => {
+  test('Derives consistent volumes from batch parameters', () => {
+    const v = calculateRecipeVolumes({
+      batchSize: 20,
+      grainWeight: 5,
+      mashThickness: 3,
+      grainAbsorption: 1,
+      boilTime: 60,
+      evaporationRate: 4,
+      deadSpace: 1
+    });
+    expect(v).toEqual({ total: 30, mash: 15, sparge: 15, grainAbsorption: 1, boilOff: 4, deadSpace: 1 });
+    expect(boilVolumes(v, 5).intoFermenter).toBe(20);
+  });
+
+  test('BIAB puts all water in the mash', () => {
+    const v = calculateRecipeVolumes({ batchSize: 20, grainWeight: 5, grainAbsorption: 0.6, boilTime: 90, biab: true });
+    expect(v.sparge).toBe(0);
+    expect(v.mash).toBe(v.total);
+    expect(v.total).toBe(29);
+  });
+
+  test('Mash never exceeds the total water', () => {
+    const v = calculateRecipeVolumes({ batchSize: 5, grainWeight: 6, mashThickness: 4 });
+    expect(v.mash).toBe(v.total);
+    expect(v.sparge).toBe(0);
+  });
+
+  test('Rejects missing or negative parameters', () => {
+    expect(validateBatchParameters({ grainWeight: 5, boilTime: -10 })).toEqual([
+      'batchSize must be greater than 0',
+      'boilTime cannot be negative'
+    ]);
+  });
+
+  test('Explicit volumes win; batch grain weight defaults to the grain bill', () => {
+    const explicit = { total: 30, mash: 20, sparge: 10 };
+    expect(resolveVolumes(explicit, { batchSize: 20 }, 5).volumes).toBe(explicit);
+    expect(resolveVolumes(undefined, { batchSize: 20 }, 5).volumes).toEqual(calculateRecipeVolumes({ batchSize: 20, grainWeight: 5 }));
+    expect(resolveVolumes(undefined, undefined).errors).toHaveLength(1);
+  });
+});
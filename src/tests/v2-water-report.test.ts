@@ -0,0 +1,93 @@
+import { describe, test, expect } from '@jest/globals';
+import { importWaterReport, parseWaterReportCSV } from '../v2/calculations/water-report';
+
+describe('v2 water report import', () => {
+  test('Normalizes a Ward Labs style report', () => {
+    const { water, conversions, errors } = importWaterReport({
+      'pH': 7.6,
+      'Sodium, Na': '12 ppm',
+      'Calcium, Ca': '45 ppm',
+      'Magnesium, Mg': '8 ppm',
+      'Total Hardness, CaCO3': '145 ppm',
+      'Sulfate-Sulfur, SO4-S': '10 ppm',
+      'Chloride, Cl': '20 ppm',
+      'Carbonate, CO3': '< 1',
+      'Bicarbonate, HCO3': '150 ppm',
+      'Total Alkalinity, CaCO3': '123 ppm'
+    });
+
+    expect(errors).toEqual([]);
+    expect(water).toMatchObject({ calcium: 45, magnesium: 8, sodium: 12, chloride: 20, bicarbonate: 150, carbonate: 0, alkalinity: 123, ph: 7.6 });
+    expect(water.sulfate).toBeCloseTo(30, 0);
+    expect(conversions.find((c) => c.field === 'sulfate')).toMatchObject({ inferred: false, factor: 2.9963 });
+    expect(conversions.find((c) => c.field === 'carbonate')?.inferred).toBe(true);
+  });
+
+  test('Converts mEq/L and derives bicarbonate from alkalinity as CaCO3', () => {
+    const { water, conversions } = importWaterReport({
+      calcium: { value: 2, unit: 'mEq/L' },
+      magnesium: { value: 0.5, unit: 'meq/l' },
+      sodium: 10,
+      sulfate: '40 mg/L',
+      chloride: '1 mmol/L',
+      alkalinity: '100 mg/L as CaCO3'
+    });
+
+    expect(water.calcium).toBeCloseTo(40.1, 1);
+    expect(water.magnesium).toBeCloseTo(6.1, 1);
+    expect(water.chloride).toBeCloseTo(35.5, 1);
+    expect(water.bicarbonate).toBeCloseTo(121.9, 1);
+    expect(conversions.find((c) => c.field === 'bicarbonate')).toMatchObject({ from: 'derived', inferred: true });
+    expect(conversions.find((c) => c.field === 'sodium')).toBeUndefined();
+  });
+
+  test('Converts each ion from as-CaCO3 by its own charge', () => {
+    const { water } = importWaterReport({
+      sodium: '50 mg/L as CaCO3',
+      chloride: '50 mg/L as CaCO3',
+      magnesium: '50 mg/L as CaCO3',
+      calcium: '50 mg/L as CaCO3'
+    });
+    expect(water.sodium).toBeCloseTo(23.0, 1);
+    expect(water.chloride).toBeCloseTo(35.4, 1);
+    expect(water.magnesium).toBeCloseTo(12.1, 1);
+    expect(water.calcium).toBeCloseTo(20.0, 1);
+  });
+
+  test('Reads carbonate hardness as alkalinity, not total hardness', () => {
+    for (const [name, value] of [['Carbonate hardness (°dH)', 5], ['KH (°dH)', 5], ['dKH', '5 °dH']]) {
+      const { water, conversions } = importWaterReport({ 'Calcium': 40, [name]: value });
+      expect(conversions.find((c) => c.field === 'totalHardness')).toBeUndefined();
+      // 5 °dH = 89.2 mg/L as CaCO3 = 108.8 mg/L HCO3
+      expect(water.alkalinity).toBeCloseTo(89.2, 1);
+      expect(water.bicarbonate).toBeCloseTo(108.8, 1);
+    }
+  });
+
+  test('Splits total hardness around the reported calcium', () => {
+    const { water, conversions } = importWaterReport({ 'Calcium': 40, 'Total hardness (°dH)': 7 });
+    // 7 °dH = 124.9 mg/L as CaCO3, calcium accounts for 99.9 of it
+    expect(water.magnesium).toBeCloseTo(6.1, 1);
+    expect(conversions.find((c) => c.field === 'magnesium')?.inferred).toBe(true);
+    expect(conversions.filter((c) => c.from === 'missing').map((c) => c.field)).toEqual(['sodium', 'sulfate', 'chloride', 'bicarbonate']);
+  });
+
+  test('Flags units it had to assume and rejects unreadable ones', () => {
+    const assumed = importWaterReport({ calcium: 50, hardness: 150 });
+    expect(assumed.conversions.find((c) => c.field === 'totalHardness')).toMatchObject({ inferred: true, note: 'no unit given; assumed mg/L as CaCO3' });
+
+    const invalid = importWaterReport({ sulfate: '20 grains/gal', chloride: 'n/a' });
+    expect(invalid.errors).toHaveLength(2);
+    expect(importWaterReport({ nitrate: 4 }).errors).toEqual(['No recognizable water report values']);
+  });
+
+  test('Reads CSV with unit columns, semicolons and decimal commas', () => {
+    const report = parseWaterReportCSV('Parameter;Värde;Enhet\nKalcium;32,5;mg/l\nSulfat;5;mg/l as S\nAlkalinitet (HCO3);98;mg/l\nJärn;0,02;mg/l\n');
+    const { water, unrecognized } = importWaterReport(report);
+    expect(water.calcium).toBe(32.5);
+    expect(water.sulfate).toBeCloseTo(15, 0);
+    expect(water.bicarbonate).toBe(98);
+    expect(unrecognized).toEqual(['Järn']);
+    expect(parseWaterReportCSV('"Sodium, Na",12,ppm')).toEqual({ 'Sodium, Na': { value: '12', unit: 'ppm' } });
+  });
+});
@@ -0,0 +1,101 @@
+import { ACIDS, AcidDefinition } from '../data/acids'
+
+// Acid ids are `<acid>_<percent w/w>`, e.g. lactic_88, phosphoric_10.
+// A bare acid name means its first standard concentration.
+export interface ParsedAcid {
+  id: string
+  acid: AcidDefinition
+  concentration: number // % w/w
+}
+
+export const DEFAULT_MASH_PH = 5.4
+
+export function parseAcidId(id: string): ParsedAcid | undefined {
+  const match = id.match(/^([a-z]+)(?:_(\d+(?:\.\d+)?))?$/)
+  if (!match) return undefined
+  const acid = ACIDS[match[1]]
+  if (!acid) return undefined
+  const concentration = match[2] ? parseFloat(match[2]) : acid.standardConcentrations[0]
+  if (!(concentration > 0 && concentration <= (acid.maxConcentration ?? 100))) return undefined
+  return { id, acid, concentration }
+}
+
+// Density interpolated linearly between water and the tabulated solution
+export function acidDensity(acid: AcidDefinition, concentration: number): number {
+  const reference = acid.standardConcentrations[0]
+  return 1 + (acid.density - 1) * (concentration / reference)
+}
+
+// Average protons released per molecule at the given pH (0..number of pKa values)
+export function protonsReleased(acid: AcidDefinition, pH: number): number {
+  const h = Math.pow(10, -pH)
+  const terms = [1]
+  for (let i = 0; i < acid.pKa.length; i++) terms.push(terms[i] * Math.pow(10, -acid.pKa[i]) / h)
+  const sum = terms.reduce((s, t) => s + t, 0)
+  return terms.reduce((s, t, i) => s + i * t / sum, 0)
+}
+
+// mmol of acid molecules per ml of solution
+export function acidMmolPerMl(acidId: string): number {
+  const parsed = parseAcidId(acidId)
+  if (!parsed) return 0
+  const { acid, concentration } = parsed
+  return acidDensity(acid, concentration) * (concentration / 100) / acid.molarMass * 1000
+}
+
+// mEq of acidity delivered per ml of solution when the mash settles at pH
+export function acidMEqPerMl(acidId: string, pH: number = DEFAULT_MASH_PH): number {
+  const parsed = parseAcidId(acidId)
+  if (!parsed) return 0
+  return acidMmolPerMl(acidId) * protonsReleased(parsed.acid, pH)
+}
+
+// Total mEq from a set of additions (acid id -> ml)
+export function totalAcidMEq(acids: Record<string, number> | undefined, pH: number = DEFAULT_MASH_PH): number {
+  if (!acids) return 0
+  let mEq = 0
+  for (const [id, ml] of Object.entries(acids)) {
+    if (!ml) continue
+    mEq += ml * acidMEqPerMl(id, pH)
+  }
+  return mEq
+}
+
+// Bicarbonate (ppm) neutralized when the acid is dissolved in `liters` of water
+export function bicarbonateReductionFromAcids(
+  acids: Record<string, number> | undefined,
+  liters: number,
+  pH: number = DEFAULT_MASH_PH
+): number {
+  if (!acids || liters <= 0) return 0
+  return (totalAcidMEq(acids, pH) / liters) * 61
+}
+
+const ANION_MOLAR_MASS = { sulfate: 96.06, chloride: 35.453 }
+
+// Sulfate and chloride (ppm) that mineral acids leave behind in `liters` of water
+export function anionPPMFromAcids(
+  acids: Record<string, number> | undefined,
+  liters: number
+): { sulfate: number; chloride: number } {
+  const ppm = { sulfate: 0, chloride: 0 }
+  if (!acids || liters <= 0) return ppm
+  for (const [id, ml] of Object.entries(acids)) {
+    const anion = parseAcidId(id)?.acid.anion
+    if (!ml || !anion) continue
+    ppm[anion] += (ml * acidMmolPerMl(id) / liters) * ANION_MOLAR_MASS[anion]
+  }
+  return ppm
+}
+
+// Typical lactic acid content of acidulated (sauer) malt, % w/w
+export const ACIDULATED_MALT_LACTIC_PERCENT = 2
+
+// mEq of acidity per kg of acidulated malt when the mash settles at pH
+export function acidulatedMaltMEqPerKg(
+  lacticAcidPercent: number = ACIDULATED_MALT_LACTIC_PERCENT,
+  pH: number = DEFAULT_MASH_PH
+): number {
+  const mmolPerKg = (lacticAcidPercent / 100) * 1000 / ACIDS.lactic.molarMass * 1000
+  return mmolPerKg * protonsReleased(ACIDS.lactic, pH)
+}
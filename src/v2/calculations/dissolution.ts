@@ -0,0 +1,116 @@
+import { Volumes, VolumeMode } from '../types'
+import { SALTS, SaltCatalog, SaltDefinition } from '../data/salts'
+import { CHEMISTRY_CONSTANTS } from '../data/constants'
+import { DEFAULT_MASH_PH } from './acids'
+import { effectiveVolume } from './volumes'
+
+// CO2 available to plain water: none (closed, e.g. boiled), atmospheric (open vessel),
+// saturated (CO2 bubbled through at 1 atm), or a partial pressure in atm
+export type CO2Availability = 'none' | 'atmospheric' | 'saturated' | number
+
+export interface DissolutionOptions {
+  mashPH?: number      // pH the grist buffers mash and wort at, default DEFAULT_MASH_PH
+  co2?: CO2Availability // for salts dissolved in plain water (total mode, sparge), default 'atmospheric'
+}
+
+// Either buffered by grist at a pH, or plain water with some CO2
+export interface DissolutionConditions {
+  pH?: number
+  co2?: CO2Availability
+}
+
+export interface SolubilityIssue {
+  saltId: string
+  grams: number
+  maxGrams: number // what can dissolve in the stage volume
+  message: string
+}
+
+const CO2_PRESSURE = { none: 0, atmospheric: 10 ** -3.4, saturated: 1 }
+// 25 °C: Henry's constant for CO2 (mol/L/atm) and calcite solubility product
+const PK_HENRY = 1.47
+const PK_CALCITE = 8.48
+const CACO3_MOLAR_MASS = 100.09
+
+function co2Pressure(co2: CO2Availability = 'atmospheric'): number {
+  return typeof co2 === 'number' ? Math.max(0, co2) : CO2_PRESSURE[co2]
+}
+
+/**
+ * Grams per liter of a salt that can dissolve, or undefined when it is freely
+ * soluble at brewing doses. Pickling lime keeps its solubilityLimit. Chalk
+ * needs acid: in water it only dissolves as far as CO2 turns it into
+ * bicarbonate (CaCO3 + CO2 + H2O → Ca²⁺ + 2 HCO3⁻, so [Ca] grows with the cube
+ * root of pCO2), and in a mash buffered at a fixed pH the malt acids take it up
+ * as CaCO3 + H⁺ → Ca²⁺ + HCO3⁻. Neither falls below the pure-water limit.
+ */
+export function solubilityGramsPerLiter(salt: SaltDefinition, conditions: DissolutionConditions = {}): number | undefined {
+  if (salt.solubilityLimit === undefined) return undefined
+  if (!salt.ionsPPMPerGram.carbonate) return salt.solubilityLimit
+
+  const k1 = 10 ** -CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA1
+  const k2 = 10 ** -CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA2
+  const ksp = 10 ** -PK_CALCITE
+  let molPerL: number
+  if (conditions.pH !== undefined) {
+    molPerL = Math.sqrt((ksp / k2) * 10 ** -conditions.pH)
+  } else {
+    molPerL = Math.cbrt((co2Pressure(conditions.co2) * k1 * 10 ** -PK_HENRY * ksp) / (4 * k2))
+  }
+  return Math.max(salt.solubilityLimit, molPerL * CACO3_MOLAR_MASS)
+}
+
+// Mash and boil salts meet grist acidity; total-mode and sparge salts go into plain water
+export function dissolutionConditions(
+  mode: VolumeMode,
+  location: 'mash' | 'sparge' | 'boil' | undefined,
+  opts: DissolutionOptions = {}
+): DissolutionConditions {
+  const inWort = mode === 'mash' || (mode === 'staged' && location !== 'sparge')
+  return inWort ? { pH: opts.mashPH ?? DEFAULT_MASH_PH } : { co2: opts.co2 ?? 'atmospheric' }
+}
+
+export function maxDissolvedGrams(
+  salt: SaltDefinition,
+  volumeL: number,
+  conditions: DissolutionConditions
+): number {
+  const limit = solubilityGramsPerLiter(salt, conditions)
+  return limit === undefined ? Infinity : limit * Math.max(0, volumeL)
+}
+
+function describeConditions(conditions: DissolutionConditions, carbonate: boolean): string {
+  if (conditions.pH !== undefined) return carbonate ? `a mash at pH ${conditions.pH}` : 'mash'
+  if (!carbonate) return 'water'
+  const co2 = conditions.co2 ?? 'atmospheric'
+  if (typeof co2 === 'number') return `water under ${co2} atm CO2`
+  return co2 === 'none' ? 'water without CO2' : co2 === 'saturated' ? 'CO2-saturated water' : 'water open to air'
+}
+
+// Additions of one location that exceed what can dissolve in its volume
+export function checkSolubility(
+  salts: Record<string, number> | undefined,
+  volumes: Volumes,
+  mode: VolumeMode,
+  location?: 'mash' | 'sparge' | 'boil',
+  opts: DissolutionOptions = {},
+  catalog: SaltCatalog = SALTS
+): SolubilityIssue[] {
+  const liters = effectiveVolume(volumes, mode, location)
+  const conditions = dissolutionConditions(mode, location, opts)
+  const issues: SolubilityIssue[] = []
+  for (const [saltId, grams] of Object.entries(salts || {})) {
+    const salt = catalog[saltId]
+    if (!salt || !grams) continue
+    const maxGrams = maxDissolvedGrams(salt, liters, conditions)
+    if (grams <= maxGrams + 1e-9) continue
+    const max = Math.round(maxGrams * 100) / 100
+    issues.push({
+      saltId,
+      grams,
+      maxGrams: max,
+      message: `${saltId}: only about ${max} g of ${grams} g can dissolve in ${Math.round(liters * 10) / 10} L of ${describeConditions(conditions, !!salt.ionsPPMPerGram.carbonate)}; the rest stays undissolved`
+    })
+  }
+  return issues
+}
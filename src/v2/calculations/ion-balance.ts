@@ -0,0 +1,134 @@
+import { WaterProfile } from '../types'
+
+// mg per mEq (molar mass / charge)
+export const EQUIVALENT_WEIGHTS = {
+  calcium: 20.04,
+  magnesium: 12.15,
+  sodium: 22.99,
+  sulfate: 48.03,
+  chloride: 35.45,
+  bicarbonate: 61.02,
+  carbonate: 30.0
+}
+
+type BalanceIon = keyof typeof EQUIVALENT_WEIGHTS
+const CATIONS: BalanceIon[] = ['calcium', 'magnesium', 'sodium']
+const ANIONS: BalanceIon[] = ['sulfate', 'chloride', 'bicarbonate', 'carbonate']
+// Reported ions that are commonly left out of a water report, most likely first
+const OFTEN_MISSING: BalanceIon[] = ['sodium', 'sulfate', 'chloride', 'magnesium', 'bicarbonate', 'calcium']
+
+export type BalanceStatus = 'reliable' | 'questionable' | 'bad'
+
+export interface IonSuggestion {
+  ion: BalanceIon
+  kind: 'missing' | 'unit' | 'adjust'
+  suggested: number // ppm that would balance the report
+  message: string
+}
+
+export interface IonBalance {
+  cations: number      // mEq/L
+  anions: number       // mEq/L
+  difference: number   // cations - anions, mEq/L
+  errorPercent: number // (cations - anions) / (cations + anions) × 100
+  status: BalanceStatus
+  milliequivalents: Record<BalanceIon, number>
+  suggestions: IonSuggestion[]
+}
+
+// Differences below this are measurement noise in very soft water, whatever the percentage
+const ABSOLUTE_TOLERANCE_MEQ = 0.2
+const RELIABLE_PERCENT = 5
+const QUESTIONABLE_PERCENT = 10
+
+// Typical unit slips: the value was entered in a unit the report also uses
+const UNIT_SLIPS: { ion: BalanceIon; factor: number; message: string }[] = [
+  { ion: 'sulfate', factor: 96.06 / 32.06, message: 'sulfate looks like it was entered as sulfur (SO4-S); multiply by 3' },
+  { ion: 'bicarbonate', factor: 122.03 / 100.09, message: 'bicarbonate looks like it was entered as alkalinity as CaCO3; multiply by 1.22' },
+  { ion: 'calcium', factor: 40.08 / 100.09, message: 'calcium looks like it was entered as calcium hardness as CaCO3; multiply by 0.4' },
+  { ion: 'magnesium', factor: 24.31 / 100.09, message: 'magnesium looks like it was entered as magnesium hardness as CaCO3; multiply by 0.24' }
+]
+
+function classify(difference: number, errorPercent: number): BalanceStatus {
+  if (Math.abs(difference) <= ABSOLUTE_TOLERANCE_MEQ || Math.abs(errorPercent) <= RELIABLE_PERCENT) return 'reliable'
+  return Math.abs(errorPercent) <= QUESTIONABLE_PERCENT ? 'questionable' : 'bad'
+}
+
+function milliequivalentsOf(water: WaterProfile): Record<BalanceIon, number> {
+  const meq = {} as Record<BalanceIon, number>
+  for (const ion of [...CATIONS, ...ANIONS]) meq[ion] = Math.max(0, water[ion] || 0) / EQUIVALENT_WEIGHTS[ion]
+  return meq
+}
+
+function balanceOf(meq: Record<BalanceIon, number>) {
+  const cations = CATIONS.reduce((s, ion) => s + meq[ion], 0)
+  const anions = ANIONS.reduce((s, ion) => s + meq[ion], 0)
+  const sum = cations + anions
+  return { cations, anions, difference: cations - anions, errorPercent: sum > 0 ? ((cations - anions) / sum) * 100 : 0 }
+}
+
+/**
+ * Cation/anion balance of a water report. A complete, consistent analysis
+ * balances to within a few percent; a larger error means an ion is missing
+ * (sodium and sulfate are the usual ones) or entered in the wrong unit.
+ * Suggestions are ordered from most to least likely: missing ions on the
+ * short side, unit slips that would balance the report (closest first), then
+ * the ion on the short side that needs the smallest relative change.
+ */
+export function checkIonBalance(water: WaterProfile): IonBalance {
+  const meq = milliequivalentsOf(water)
+  const { cations, anions, difference, errorPercent } = balanceOf(meq)
+  const status = classify(difference, errorPercent)
+  const round = (x: number, digits = 2) => Math.round(x * 10 ** digits) / 10 ** digits
+
+  const suggestions: IonSuggestion[] = []
+  if (status !== 'reliable') {
+    // Excess cations: an anion is missing or low, and vice versa
+    const shortSide = difference > 0 ? ANIONS : CATIONS
+    const needed = Math.abs(difference)
+
+    for (const ion of OFTEN_MISSING.filter((i) => shortSide.includes(i) && !((water[i] || 0) > 0))) {
+      const suggested = round(needed * EQUIVALENT_WEIGHTS[ion], 0)
+      suggestions.push({ ion, kind: 'missing', suggested, message: `${ion} is not reported; about ${suggested} ppm would balance the report` })
+    }
+
+    const slips = UNIT_SLIPS
+      .filter((slip) => (water[slip.ion] || 0) > 0)
+      .map((slip) => {
+        const value = water[slip.ion] || 0
+        const fixed = balanceOf({ ...meq, [slip.ion]: (value * slip.factor) / EQUIVALENT_WEIGHTS[slip.ion] })
+        return { ...slip, suggested: round(value * slip.factor, 1), fixed }
+      })
+      .filter(({ fixed }) => classify(fixed.difference, fixed.errorPercent) === 'reliable')
+      .sort((a, b) => Math.abs(a.fixed.errorPercent) - Math.abs(b.fixed.errorPercent))
+    for (const { ion, suggested, message } of slips) suggestions.push({ ion, kind: 'unit', suggested, message })
+
+    const adjustable = shortSide
+      .filter((ion) => (water[ion] || 0) > 0)
+      .map((ion) => ({ ion, suggested: (water[ion] || 0) + needed * EQUIVALENT_WEIGHTS[ion] }))
+      .sort((a, b) => a.suggested / (water[a.ion] || 1) - b.suggested / (water[b.ion] || 1))
+    if (adjustable.length > 0) {
+      const { ion, suggested } = adjustable[0]
+      suggestions.push({ ion, kind: 'adjust', suggested: round(suggested, 0), message: `${ion} may be mistyped; about ${round(suggested, 0)} ppm would balance the report` })
+    }
+  }
+
+  const rounded = {} as Record<BalanceIon, number>
+  for (const [ion, value] of Object.entries(meq)) rounded[ion as BalanceIon] = round(value, 3)
+  return {
+    cations: round(cations, 3),
+    anions: round(anions, 3),
+    difference: round(difference, 3),
+    errorPercent: round(errorPercent, 1),
+    status,
+    milliequivalents: rounded,
+    suggestions
+  }
+}
+
+// One-line summary for response warnings; undefined when the report balances
+export function describeIonBalance(balance: IonBalance): string | undefined {
+  if (balance.status === 'reliable') return undefined
+  const hint = balance.suggestions[0] ? `: ${balance.suggestions[0].message}` : ''
+  return `Source water ion balance is ${balance.status} (${balance.errorPercent}% cation/anion error)${hint}`
+}
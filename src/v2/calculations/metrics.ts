@@ -0,0 +1,88 @@
+import { WaterProfile } from '../types'
+import { EQUIVALENT_WEIGHTS } from './ion-balance'
+
+const CACO3_EQUIVALENT = 50.04
+
+export interface WaterMetrics {
+  totalHardness: number      // ppm as CaCO3
+  temporaryHardness: number  // carbonate hardness: the part of the hardness matched by alkalinity
+  permanentHardness: number
+  alkalinity: number         // ppm as CaCO3
+  residualAlkalinity: number // Kolbach, ppm as CaCO3
+  sulfateChlorideRatio: number | null
+  tds: number                // ppm, estimated from the ions
+  ionicStrength: number      // mol/L
+}
+
+export interface WaterMetricsSet {
+  source: WaterMetrics
+  achieved: WaterMetrics // after salts
+  final: WaterMetrics    // after salts and acids
+}
+
+// Not clamped: mash water carries acid beyond its alkalinity as negative bicarbonate
+const asCaCO3 = (ppm: number | undefined, equivalentWeight: number) => ((ppm || 0) / equivalentWeight) * CACO3_EQUIVALENT
+
+export function totalHardness(w: WaterProfile): number {
+  return asCaCO3(w.calcium, EQUIVALENT_WEIGHTS.calcium) + asCaCO3(w.magnesium, EQUIVALENT_WEIGHTS.magnesium)
+}
+
+export function alkalinityAsCaCO3(w: WaterProfile): number {
+  return asCaCO3(w.bicarbonate, EQUIVALENT_WEIGHTS.bicarbonate) + asCaCO3(w.carbonate, EQUIVALENT_WEIGHTS.carbonate)
+}
+
+// Kolbach: calcium hardness / 3.5 and magnesium hardness / 7 offset the alkalinity
+export function residualAlkalinity(w: WaterProfile): number {
+  return alkalinityAsCaCO3(w) -
+    asCaCO3(w.calcium, EQUIVALENT_WEIGHTS.calcium) / 3.5 -
+    asCaCO3(w.magnesium, EQUIVALENT_WEIGHTS.magnesium) / 7
+}
+
+// The same RA in mEq/L, as the pH models work in
+export function residualAlkalinityMEq(w: WaterProfile): number {
+  return residualAlkalinity(w) / CACO3_EQUIVALENT
+}
+
+// Dissolved solids as left on evaporation: bicarbonate counts as carbonate (×0.4917)
+export function estimateTDS(w: WaterProfile): number {
+  return (w.calcium || 0) + (w.magnesium || 0) + (w.sodium || 0) + (w.sulfate || 0) + (w.chloride || 0) +
+    (w.bicarbonate || 0) * 0.4917 + (w.carbonate || 0)
+}
+
+export function ionicStrength(w: WaterProfile): number {
+  const molar = (ppm: number | undefined, mm: number) => Math.max(0, ppm || 0) / mm / 1000
+  return 0.5 * (
+    molar(w.calcium, 40.08) * 4 +
+    molar(w.magnesium, 24.31) * 4 +
+    molar(w.sodium, 22.99) +
+    molar(w.sulfate, 96.06) * 4 +
+    molar(w.chloride, 35.45) +
+    molar(w.bicarbonate, 61.02) +
+    molar(w.carbonate, 60.01) * 4
+  )
+}
+
+export function calculateWaterMetrics(w: WaterProfile): WaterMetrics {
+  const round = (x: number, digits = 1) => Math.round(x * 10 ** digits) / 10 ** digits
+  const hardness = totalHardness(w)
+  const alkalinity = Math.max(0, alkalinityAsCaCO3(w))
+  const temporary = Math.min(hardness, alkalinity)
+  return {
+    totalHardness: round(hardness),
+    temporaryHardness: round(temporary),
+    permanentHardness: round(hardness - temporary),
+    alkalinity: round(alkalinity),
+    residualAlkalinity: round(residualAlkalinity(w)),
+    sulfateChlorideRatio: w.chloride > 0 ? round(w.sulfate / w.chloride, 2) : null,
+    tds: round(estimateTDS(w)),
+    ionicStrength: round(ionicStrength(w), 5)
+  }
+}
+
+export function calculateWaterMetricsSet(source: WaterProfile, achieved: WaterProfile, final: WaterProfile): WaterMetricsSet {
+  return {
+    source: calculateWaterMetrics(source),
+    achieved: calculateWaterMetrics(achieved),
+    final: calculateWaterMetrics(final)
+  }
+}
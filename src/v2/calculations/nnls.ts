@@ -0,0 +1,95 @@
+// Non-negative least squares: minimize ||A x - b|| subject to x >= 0.
+// Lawson–Hanson active-set method; A is given row-major (rows = equations).
+
+const MAX_OUTER = 100
+
+// Solves the square system M z = v by Gaussian elimination with partial pivoting
+function solveLinear(M: number[][], v: number[]): number[] {
+  const n = v.length
+  const a = M.map((row, i) => [...row, v[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    if (Math.abs(a[col][col]) < 1e-15) continue
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col]
+      for (let c = col; c <= n; c++) a[r][c] -= f * a[col][c]
+    }
+  }
+  const z = new Array(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    if (Math.abs(a[r][r]) < 1e-15) continue
+    let s = a[r][n]
+    for (let c = r + 1; c < n; c++) s -= a[r][c] * z[c]
+    z[r] = s / a[r][r]
+  }
+  return z
+}
+
+// Unconstrained least squares restricted to the passive columns (others held at 0)
+function solvePassive(A: number[][], b: number[], passive: number[], n: number): number[] {
+  const k = passive.length
+  const M = Array.from({ length: k }, () => new Array(k).fill(0))
+  const v = new Array(k).fill(0)
+  A.forEach((row, i) => {
+    passive.forEach((p, a) => {
+      v[a] += row[p] * b[i]
+      passive.forEach((q, c) => { M[a][c] += row[p] * row[q] })
+    })
+  })
+  // A small ridge keeps near-collinear salts (e.g. chalk vs. lime) solvable
+  const trace = M.reduce((s, row, i) => s + row[i], 0)
+  for (let i = 0; i < k; i++) M[i][i] += 1e-12 * (trace || 1)
+  const z = solveLinear(M, v)
+  const x = new Array(n).fill(0)
+  passive.forEach((p, a) => { x[p] = z[a] })
+  return x
+}
+
+function gradient(A: number[][], b: number[], x: number[]): number[] {
+  const n = x.length
+  const w = new Array(n).fill(0)
+  A.forEach((row, i) => {
+    const r = b[i] - row.reduce((s, a, j) => s + a * x[j], 0)
+    for (let j = 0; j < n; j++) w[j] += row[j] * r
+  })
+  return w
+}
+
+export function nnls(A: number[][], b: number[], tolerance = 1e-10): number[] {
+  const n = A[0]?.length || 0
+  let x = new Array(n).fill(0)
+  const passive = new Set<number>()
+  const scale = Math.max(1, ...A.map(row => Math.max(...row.map(Math.abs))), ...b.map(Math.abs))
+  const tol = tolerance * scale * scale
+
+  for (let outer = 0; outer < MAX_OUTER; outer++) {
+    const w = gradient(A, b, x)
+    let t = -1
+    for (let j = 0; j < n; j++) {
+      if (!passive.has(j) && w[j] > tol && (t < 0 || w[j] > w[t])) t = j
+    }
+    if (t < 0) break
+    passive.add(t)
+
+    for (;;) {
+      const s = solvePassive(A, b, [...passive], n)
+      const infeasible = [...passive].filter(j => s[j] <= 0)
+      if (infeasible.length === 0) {
+        x = s
+        break
+      }
+      // Step back towards x until the first passive variable hits zero
+      const alpha = Math.min(...infeasible.map(j => x[j] / (x[j] - s[j])))
+      x = x.map((xj, j) => xj + alpha * (s[j] - xj))
+      for (const j of [...passive]) {
+        if (x[j] <= 1e-12) {
+          x[j] = 0
+          passive.delete(j)
+        }
+      }
+    }
+  }
+  return x
+}
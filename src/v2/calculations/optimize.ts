@@ -1,88 +1,261 @@
-import { SALTS, SaltDefinition } from '../data/salts'
+import { SALTS, SaltCatalog, SaltDefinition, gramsPerUnit } from '../data/salts'
 import { WaterProfile, Volumes, VolumeMode } from '../types'
 import { calculateSaltContribution } from './ppm'
+import { nnls } from './nnls'
+import { SULFATE_CHLORIDE_RATIOS } from '../data/constants'
+import { estimateTDS } from './metrics'
+import { DissolutionOptions, dissolutionConditions, maxDissolvedGrams } from './dissolution'
+import { effectiveVolume } from './volumes'
+
+export { estimateTDS }
 
 export type SaltAdditions = Record<string, number>
 
+// Hard caps on the achieved water, honored by every optimizer
+export interface IonConstraints {
+  maxSodium?: number
+  maxMagnesium?: number
+  maxCalcium?: number
+  maxTDS?: number
+}
+
+const CAPPED: { key: keyof IonConstraints; label: string; value: (w: WaterProfile) => number }[] = [
+  { key: 'maxCalcium', label: 'Calcium', value: w => w.calcium },
+  { key: 'maxMagnesium', label: 'Magnesium', value: w => w.magnesium },
+  { key: 'maxSodium', label: 'Sodium', value: w => w.sodium },
+  { key: 'maxTDS', label: 'TDS', value: estimateTDS }
+]
+
+// Total ppm above the caps (0 when all constraints hold)
+export function constraintExcess(w: WaterProfile, c: IonConstraints = {}): number {
+  return CAPPED.reduce((s, cap) => {
+    const limit = c[cap.key]
+    return typeof limit === 'number' ? s + Math.max(0, cap.value(w) - limit) : s
+  }, 0)
+}
+
+export function describeConstraintViolations(w: WaterProfile, c: IonConstraints = {}): string[] {
+  const out: string[] = []
+  for (const cap of CAPPED) {
+    const limit = c[cap.key]
+    const value = cap.value(w)
+    if (typeof limit === 'number' && value > limit + 0.05) out.push(`${cap.label} ${value.toFixed(0)} ppm exceeds ${cap.key} ${limit} ppm`)
+  }
+  return out
+}
+
+// Largest grams of a salt (given its 1 g contribution) that keeps every cap satisfied
+function maxGramsWithinConstraints(w: WaterProfile, perGram: WaterProfile, c: IonConstraints = {}): number {
+  let max = Infinity
+  for (const cap of CAPPED) {
+    const limit = c[cap.key]
+    if (typeof limit !== 'number') continue
+    const zero: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 }
+    const perG = cap.value({ ...zero, ...perGram })
+    if (perG > 0) max = Math.min(max, Math.max(0, (limit - cap.value(w)) / perG))
+  }
+  return max
+}
+
+// A move is allowed when it does not push the water further past any cap
+const respectsConstraints = (before: WaterProfile, after: WaterProfile, c: IonConstraints = {}) =>
+  constraintExcess(after, c) <= constraintExcess(before, c) + 1e-9
+
+export type Flavor = keyof typeof SULFATE_CHLORIDE_RATIOS
+
+// Sulfate:chloride goal, traded off against absolute ion matching by ratioWeight
+export interface RatioGoal {
+  flavor?: Flavor      // SO4:Cl band from SULFATE_CHLORIDE_RATIOS
+  ratioRange?: { min: number; max: number } // explicit band, e.g. from a beer style
+  ratioTarget?: number // explicit SO4:Cl ratio, overrides any band
+  ratioWeight?: number // cost of 1 ppm sulfate off the band relative to 1 ppm ion deviation, default 1
+}
+
+export function ratioBand(goal: RatioGoal = {}): { min: number; max: number } | undefined {
+  if (typeof goal.ratioTarget === 'number' && goal.ratioTarget > 0) return { min: goal.ratioTarget, max: goal.ratioTarget }
+  if (goal.ratioRange) return { ...goal.ratioRange }
+  if (goal.flavor && SULFATE_CHLORIDE_RATIOS[goal.flavor]) {
+    const { min, max } = SULFATE_CHLORIDE_RATIOS[goal.flavor]
+    return { min, max }
+  }
+  return undefined
+}
+
+// Distance from the band in ppm of sulfate (0 inside the band); linear in the ions
+function ratioPenalty(w: WaterProfile, band?: { min: number; max: number }): number {
+  if (!band) return 0
+  if (w.sulfate < band.min * w.chloride) return band.min * w.chloride - w.sulfate
+  if (w.sulfate > band.max * w.chloride) return w.sulfate - band.max * w.chloride
+  return 0
+}
+
+// Moves the target's sulfate/chloride (keeping their sum) toward the band, by weight w / (1 + w)
+function ratioAdjustedTarget(target: WaterProfile, goal: RatioGoal): WaterProfile {
+  const band = ratioBand(goal)
+  const sum = target.sulfate + target.chloride
+  if (!band || sum <= 0) return target
+  const ratio = target.chloride > 0 ? target.sulfate / target.chloride : Infinity
+  const edge = Math.min(Math.max(ratio, band.min), band.max)
+  if (edge === ratio) return target
+  const weight = goal.ratioWeight ?? 1
+  const share = weight / (1 + weight)
+  const sulfate = (sum * edge) / (1 + edge)
+  return {
+    ...target,
+    sulfate: target.sulfate + (sulfate - target.sulfate) * share,
+    chloride: target.chloride + (sum - sulfate - target.chloride) * share
+  }
+}
+
+// Per-ion [min, max] bands; anywhere inside a band costs nothing
+export type TargetRanges = Partial<Record<IonKey, [number, number]>>
+
+// Distance of one ion from its target, or from its band when one is given
+function ionDistance(w: WaterProfile, target: WaterProfile, ion: IonKey, ranges?: TargetRanges): number {
+  const value = (w as any)[ion] as number
+  const range = ranges?.[ion]
+  if (range) return Math.max(0, range[0] - value, value - range[1])
+  return Math.abs(value - (target as any)[ion])
+}
+
+// Per-salt limit in the salt's own unit: maxSaltAmount grams (for a stock solution, the ml
+// carrying that much salt), lowered to what can dissolve for chalk and lime.
+// Floored to 0.1 g so rounding an addition cannot push it past the limit.
+function saltLimit(salt: SaltDefinition | undefined, maxSaltAmount: number, volumes: Volumes, mode: VolumeMode, dissolution?: DissolutionOptions): number {
+  if (!salt) return maxSaltAmount
+  if (salt.solution) return Math.floor((maxSaltAmount / gramsPerUnit(salt)) * 10) / 10
+  const soluble = maxDissolvedGrams(salt, effectiveVolume(volumes, mode, 'mash'), dissolutionConditions(mode, 'mash', dissolution))
+  return Math.min(maxSaltAmount, Math.floor(soluble * 10) / 10)
+}
+
+const DEFAULT_SALTS = [
+  'gypsum',
+  'calcium_chloride',
+  'epsom_salt',
+  'magnesium_chloride',
+  'sodium_chloride',
+  'baking_soda',
+  'calcium_carbonate',
+  'calcium_hydroxide'
+]
+
+// The common brewing salts plus any the request defined. Stock solutions are only
+// used when allowedSalts names them, so the output comes in ml instead of grams.
+function defaultAllowedSalts(catalog: SaltCatalog): string[] {
+  return [...DEFAULT_SALTS, ...Object.keys(catalog).filter((id) => catalog[id].custom && !catalog[id].solution)]
+}
+
+export interface SimpleOptions extends RatioGoal {
+  allowedSalts?: string[]
+  maxSalts?: number
+  maxSaltAmount?: number // max grams per salt
+  constraints?: IonConstraints
+  targetRanges?: TargetRanges      // an ion already inside (or above) its band needs nothing
+  dissolution?: DissolutionOptions // conditions that limit how much chalk and lime dissolve
+  catalog?: SaltCatalog            // built-in salts plus any defined by the request
+}
+
 export function optimizeWaterSimple(
   source: WaterProfile,
   target: WaterProfile,
   volumes: Volumes,
-  mode: VolumeMode = 'mash'
+  mode: VolumeMode = 'mash',
+  opts: SimpleOptions = {}
 ): SaltAdditions {
+  const { allowedSalts, maxSalts = Infinity, maxSaltAmount = Infinity, constraints = {} } = opts
+  const catalog = opts.catalog || SALTS
+  // The rule-based steps cannot score a ratio, so the goal is folded into the target instead
+  target = ratioAdjustedTarget(target, opts)
   const additions: SaltAdditions = {}
   const current: WaterProfile = { ...source }
+  // Salts dissolve in the mash water, or in the whole batch for 'total'
+  const liters = effectiveVolume(volumes, mode, 'mash')
 
-  const need = (ion: keyof WaterProfile) => Math.max(0, (target as any)[ion] - (current as any)[ion] || 0)
+  const need = (ion: IonKey) => {
+    const range = opts.targetRanges?.[ion]
+    if (range && current[ion] >= range[0]) return 0
+    return Math.max(0, target[ion] - current[ion] || 0)
+  }
+  const usable = (saltId: string) =>
+    !!catalog[saltId] && (!allowedSalts || allowedSalts.includes(saltId)) && Object.keys(additions).length < maxSalts
+  // Clamp a gram amount to the per-salt limit and the ion caps (ppm on the dosed volume)
+  const clamp = (saltId: string, grams: number) => {
+    const perGram: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 }
+    for (const [ion, ppm] of Object.entries(catalog[saltId].ionsPPMPerGram)) (perGram as any)[ion] = (ppm || 0) / liters
+    // round the cap down so recording to 0.1 g cannot overshoot it
+    const cap = Math.floor(maxGramsWithinConstraints(current, perGram, constraints) * 10) / 10
+    return Math.min(grams, saltLimit(catalog[saltId], maxSaltAmount, volumes, mode, opts.dissolution), cap)
+  }
+  const record = (saltId: string, grams: number) => {
+    additions[saltId] = Math.round(grams * 10) / 10
+    const gplApplied = additions[saltId] / liters
+    for (const [ion, ppm] of Object.entries(catalog[saltId].ionsPPMPerGram)) {
+      if (ion in current) (current as any)[ion] += gplApplied * (ppm || 0)
+    }
+  }
 
   // Step 1: Calcium via gypsum/CaCl2 depending on SO4/Cl needs
   const caNeed = need('calcium')
   const so4Need = need('sulfate')
   const clNeed = need('chloride')
 
-  if (caNeed > 0 && so4Need > 0) {
+  if (caNeed > 0 && so4Need > 0 && usable('gypsum')) {
     const gypCaPerG = SALTS.gypsum.ionsPPMPerGram.calcium!
     const gypSo4PerG = SALTS.gypsum.ionsPPMPerGram.sulfate!
     // grams needed per liter limited by both ions
     const gpl = Math.min(caNeed / gypCaPerG, so4Need / gypSo4PerG)
-    const grams = Math.max(0, gpl) * volumes.mash
-    if (grams > 0.1) {
-      additions.gypsum = Math.round(grams * 10) / 10
-      // Update current
-      const gplApplied = additions.gypsum / volumes.mash
-      current.calcium += gplApplied * gypCaPerG
-      current.sulfate += gplApplied * gypSo4PerG
-    }
+    const grams = clamp('gypsum', Math.max(0, gpl) * liters)
+    if (grams > 0.1) record('gypsum', grams)
   }
 
   const caStill = need('calcium')
-  if (caStill > 0 && clNeed > 0) {
+  if (caStill > 0 && clNeed > 0 && usable('calcium_chloride')) {
     const cacl2CaPerG = SALTS.calcium_chloride.ionsPPMPerGram.calcium!
     const cacl2ClPerG = SALTS.calcium_chloride.ionsPPMPerGram.chloride!
     const gpl = Math.min(caStill / cacl2CaPerG, clNeed / cacl2ClPerG)
-    const grams = Math.max(0, gpl) * volumes.mash
-    if (grams > 0.1) {
-      additions.calcium_chloride = Math.round(grams * 10) / 10
-      const gplApplied = additions.calcium_chloride / volumes.mash
-      current.calcium += gplApplied * cacl2CaPerG
-      current.chloride += gplApplied * cacl2ClPerG
-    }
+    const grams = clamp('calcium_chloride', Math.max(0, gpl) * liters)
+    if (grams > 0.1) record('calcium_chloride', grams)
   }
 
   // Step 2: Magnesium if needed (prefer epsom if sulfate still needed, else MgCl2 if chloride needed)
   const mgNeed = need('magnesium')
   if (mgNeed > 0) {
-    if (need('sulfate') > 0 && SALTS.epsom_salt) {
+    if (need('sulfate') > 0 && usable('epsom_salt')) {
       const mgPerG = SALTS.epsom_salt.ionsPPMPerGram.magnesium!
-      const grams = (mgNeed / mgPerG) * volumes.mash
-      if (grams > 0.1) additions.epsom_salt = Math.round(grams * 10) / 10
-    } else if (need('chloride') > 0 && SALTS.magnesium_chloride) {
+      const grams = clamp('epsom_salt', (mgNeed / mgPerG) * liters)
+      if (grams > 0.1) record('epsom_salt', grams)
+    } else if (need('chloride') > 0 && usable('magnesium_chloride')) {
       const mgPerG = SALTS.magnesium_chloride.ionsPPMPerGram.magnesium!
-      const grams = (mgNeed / mgPerG) * volumes.mash
-      if (grams > 0.1) additions.magnesium_chloride = Math.round(grams * 10) / 10
+      const grams = clamp('magnesium_chloride', (mgNeed / mgPerG) * liters)
+      if (grams > 0.1) record('magnesium_chloride', grams)
     }
   }
 
   // Step 3: Bicarbonate via baking soda if significantly low
   const hco3Need = need('bicarbonate')
-  if (hco3Need > 20 && SALTS.baking_soda) {
+  if (hco3Need > 20 && usable('baking_soda')) {
     const hco3PerG = SALTS.baking_soda.ionsPPMPerGram.bicarbonate!
-    const grams = (hco3Need / hco3PerG) * volumes.mash
-    if (grams > 0.1) additions.baking_soda = Math.round(grams * 10) / 10
+    const grams = clamp('baking_soda', (hco3Need / hco3PerG) * liters)
+    if (grams > 0.1) record('baking_soda', grams)
   }
 
   return additions
 }
 
 // Balanced optimizer with per-gram contributions and light iteration
-export interface BalancedOptions {
+export interface BalancedOptions extends RatioGoal {
   maxSalts?: number
   allowedSalts?: string[]
   tolerancePPM?: number
+  maxSaltAmount?: number // max grams per salt
   assumeCarbonateDissolution?: boolean
+  constraints?: IonConstraints
+  targetRanges?: TargetRanges
+  dissolution?: DissolutionOptions
+  catalog?: SaltCatalog
 }
 
-type IonKey = keyof Pick<WaterProfile, 'calcium' | 'magnesium' | 'sodium' | 'sulfate' | 'chloride' | 'bicarbonate'>
+export type IonKey = keyof Pick<WaterProfile, 'calcium' | 'magnesium' | 'sodium' | 'sulfate' | 'chloride' | 'bicarbonate'>
 const IONS: IonKey[] = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate']
 
 export function optimizeWaterBalanced(
@@ -92,26 +265,20 @@ export function optimizeWaterBalanced(
   mode: VolumeMode = 'mash',
   opts: BalancedOptions = {}
 ): SaltAdditions {
+  const catalog = opts.catalog || SALTS
   const {
     maxSalts = 5,
-    allowedSalts = [
-      'gypsum',
-      'calcium_chloride',
-      'epsom_salt',
-      'magnesium_chloride',
-      'sodium_chloride',
-      'baking_soda',
-      'calcium_carbonate',
-      'calcium_hydroxide'
-    ],
+    allowedSalts = defaultAllowedSalts(catalog),
     tolerancePPM = 120,
-    assumeCarbonateDissolution = true
+    maxSaltAmount = 10,
+    assumeCarbonateDissolution,
+    constraints = {}
   } = opts
 
   // Per-gram contributions using current PPM logic
   const perGram: Record<string, WaterProfile> = {}
   for (const saltName of allowedSalts) {
-    const salt = (SALTS as any)[saltName] as SaltDefinition | undefined
+    const salt = catalog[saltName]
     if (!salt) continue
     perGram[saltName] = calculateSaltContribution(
       salt,
@@ -123,12 +290,16 @@ export function optimizeWaterBalanced(
     )
   }
 
+  const limit = (saltName: string) => saltLimit(catalog[saltName], maxSaltAmount, volumes, mode, opts.dissolution)
   const clone = (w: WaterProfile): WaterProfile => ({ ...w })
   const current = clone(source)
   const additions: SaltAdditions = {}
 
-  const totalDeviation = (w: WaterProfile) =>
-    IONS.reduce((s, ion) => s + Math.abs((w as any)[ion] - (target as any)[ion]), 0)
+  const band = ratioBand(opts)
+  const ratioWeight = opts.ratioWeight ?? 1
+  const ionDeviation = (w: WaterProfile) =>
+    IONS.reduce((s, ion) => s + ionDistance(w, target, ion, opts.targetRanges), 0)
+  const totalDeviation = (w: WaterProfile) => ionDeviation(w) + ratioWeight * ratioPenalty(w, band)
 
   const applySalt = (w: WaterProfile, saltName: string, grams: number) => {
     const contrib = perGram[saltName]
@@ -150,20 +321,25 @@ export function optimizeWaterBalanced(
       }
     })
     if (!isFinite(max) || max <= 0) return 0
-    return Math.max(0, Math.min(max * 0.8, 10))
+    const headroom = limit(saltName) - (additions[saltName] || 0)
+    const cap = Math.floor(maxGramsWithinConstraints(w, contrib, constraints) * 10) / 10
+    return Math.max(0, Math.min(max * 0.8, headroom, cap))
   }
 
+  // Greedy picks score ions only: one salt at a time cannot move SO4:Cl into a band,
+  // so the ratio goal is left to the refinement below
   for (let used = 0; used < maxSalts; used++) {
     let bestSalt: string | null = null
     let bestGrams = 0
-    let bestScore = totalDeviation(current)
+    let bestScore = ionDeviation(current)
 
     for (const saltName of Object.keys(perGram)) {
       const grams = bestImmediateAmount(saltName, current)
       if (grams <= 0) continue
       const test = clone(current)
       applySalt(test, saltName, grams)
-      const score = totalDeviation(test)
+      if (!respectsConstraints(current, test, constraints)) continue
+      const score = ionDeviation(test)
       if (score + 1e-6 < bestScore) {
         bestScore = score
         bestSalt = saltName
@@ -179,24 +355,33 @@ export function optimizeWaterBalanced(
     if (totalDeviation(current) <= tolerancePPM) break
   }
 
+  // One light pass per step; a ratio goal gets repeated passes since the greedy phase ignored it
+  const passes = band ? 20 : 1
   const steps = [0.5, 0.2, 0.1]
   for (const step of steps) {
     let improved = false
-    for (const saltName of Object.keys(additions)) {
-      const tryAdjust = (delta: number) => {
-        const test = clone(current)
-        applySalt(test, saltName, delta)
-        const score = totalDeviation(test)
-        const baseline = totalDeviation(current)
-        if (score + 1e-6 < baseline) {
-          additions[saltName] = Math.round((additions[saltName] + delta) * 10) / 10
-          applySalt(current, saltName, delta)
-          return true
+    for (let pass = 0; pass < passes; pass++) {
+      let passImproved = false
+      for (const saltName of Object.keys(additions)) {
+        const tryAdjust = (delta: number) => {
+          if (additions[saltName] + delta > limit(saltName)) return false
+          const test = clone(current)
+          applySalt(test, saltName, delta)
+          if (!respectsConstraints(current, test, constraints)) return false
+          const score = totalDeviation(test)
+          const baseline = totalDeviation(current)
+          if (score + 1e-6 < baseline) {
+            additions[saltName] = Math.round((additions[saltName] + delta) * 10) / 10
+            applySalt(current, saltName, delta)
+            return true
+          }
+          return false
         }
-        return false
+        if (tryAdjust(step)) { passImproved = true; continue }
+        if (additions[saltName] > step && tryAdjust(-step)) { passImproved = true }
       }
-      if (tryAdjust(step)) { improved = true; continue }
-      if (additions[saltName] > step && tryAdjust(-step)) { improved = true }
+      improved = improved || passImproved
+      if (!passImproved) break
     }
     if (!improved || totalDeviation(current) <= tolerancePPM) break
   }
@@ -209,12 +394,17 @@ export function optimizeWaterBalanced(
 }
 
 // -------------------- Exact Optimizer (v2) --------------------
-export interface ExactOptions {
+export interface ExactOptions extends RatioGoal {
   allowedSalts?: string[]
   tolerancePPM?: number
   maxIterations?: number
   maxSaltAmount?: number // max grams per salt
+  maxSalts?: number      // max number of distinct salts used
   assumeCarbonateDissolution?: boolean
+  constraints?: IonConstraints
+  targetRanges?: TargetRanges
+  dissolution?: DissolutionOptions
+  catalog?: SaltCatalog
 }
 
 export function optimizeWaterExact(
@@ -224,27 +414,21 @@ export function optimizeWaterExact(
   mode: VolumeMode = 'mash',
   opts: ExactOptions = {}
 ): SaltAdditions {
+  const catalog = opts.catalog || SALTS
   const {
-    allowedSalts = [
-      'gypsum',
-      'calcium_chloride',
-      'epsom_salt',
-      'magnesium_chloride',
-      'sodium_chloride',
-      'baking_soda',
-      'calcium_carbonate',
-      'calcium_hydroxide'
-    ],
+    allowedSalts = defaultAllowedSalts(catalog),
     tolerancePPM = 60, // tighter than balanced
     maxIterations = 150,
     maxSaltAmount = 12,
-    assumeCarbonateDissolution = true
+    maxSalts = Infinity,
+    assumeCarbonateDissolution,
+    constraints = {}
   } = opts
 
   // Precompute 1 g contributions for each allowed salt
   const perGram: Record<string, WaterProfile> = {}
   for (const name of allowedSalts) {
-    const salt = (SALTS as any)[name] as SaltDefinition | undefined
+    const salt = catalog[name]
     if (!salt) continue
     perGram[name] = calculateSaltContribution(
       salt,
@@ -258,8 +442,12 @@ export function optimizeWaterExact(
 
   const current: WaterProfile = { ...source }
   const additions: SaltAdditions = {}
+  const limit = (salt: string) => saltLimit(catalog[salt], maxSaltAmount, volumes, mode, opts.dissolution)
 
-  const deviation = (w: WaterProfile) => IONS.reduce((s, k) => s + Math.abs((w as any)[k] - (target as any)[k]), 0)
+  const band = ratioBand(opts)
+  const ratioWeight = opts.ratioWeight ?? 1
+  const deviation = (w: WaterProfile) =>
+    IONS.reduce((s, k) => s + ionDistance(w, target, k, opts.targetRanges), 0) + ratioWeight * ratioPenalty(w, band)
   const baseDev = deviation(current)
   if (baseDev <= tolerancePPM) return {}
 
@@ -270,6 +458,7 @@ export function optimizeWaterExact(
       ;(w as any)[ion] += (contrib as any)[ion] * grams
     })
   }
+  const saltsUsed = () => Object.values(additions).filter((g) => g > 0).length
 
   // Initial guess: for each salt, compute limiting ion grams and take 50%
   for (const salt of Object.keys(perGram)) {
@@ -280,10 +469,11 @@ export function optimizeWaterExact(
       const perG = (contrib as any)[ion]
       if (need > 0 && perG > 0) max = Math.min(max, need / perG)
     })
-    if (max > 0 && isFinite(max)) {
-      const g = Math.min(max * 0.5, maxSaltAmount)
-      if (g > 0.05) {
-        additions[salt] = Math.round(g * 10) / 10
+    if (max > 0 && isFinite(max) && saltsUsed() < maxSalts) {
+      const cap = Math.floor(maxGramsWithinConstraints(current, contrib, constraints) * 10) / 10
+      const g = Math.min(max * 0.5, limit(salt))
+      if (Math.min(g, cap) > 0.05) {
+        additions[salt] = Math.min(Math.round(g * 10) / 10, cap)
         apply(current, salt, additions[salt])
       }
     }
@@ -301,8 +491,10 @@ export function optimizeWaterExact(
         const tryDelta = (delta: number) => {
           const test: WaterProfile = { ...current }
           const newAmount = Math.max(0, (additions[salt] || 0) + delta)
-          if (newAmount > maxSaltAmount) return false
+          if (newAmount > limit(salt)) return false
+          if (!additions[salt] && delta > 0 && saltsUsed() >= maxSalts) return false
           apply(test, salt, delta)
+          if (!respectsConstraints(current, test, constraints)) return false
           const s = deviation(test)
           const b = deviation(current)
           if (s + 1e-6 < b) {
@@ -329,3 +521,180 @@ export function optimizeWaterExact(
 
   return additions
 }
+
+export interface NNLSOptions extends RatioGoal {
+  allowedSalts?: string[]
+  maxSalts?: number
+  maxSaltAmount?: number // max grams per salt
+  weights?: Partial<Record<IonKey, number>> // relative importance per ion, default 1
+  assumeCarbonateDissolution?: boolean
+  constraints?: IonConstraints
+  targetRanges?: TargetRanges
+  dissolution?: DissolutionOptions
+  catalog?: SaltCatalog
+}
+
+export interface NNLSResult {
+  additions: SaltAdditions
+  residuals: Record<IonKey, number> // achieved minus target (or nearest band edge), ppm
+}
+
+// Weight of a violated cap row; large enough to pin the capped value to its limit
+const CAP_WEIGHT = 1000
+
+/**
+ * Weighted non-negative least squares over the per-gram contribution matrix.
+ * Deterministic: bounds are handled by re-solving, pinning salts that exceed
+ * maxSaltAmount or what can dissolve, adding violated ion caps as heavily weighted rows (and an
+ * out-of-band SO4:Cl goal as a ratioWeight row) and dropping the smallest salt
+ * while more than maxSalts are used.
+ */
+export function optimizeWaterNNLS(
+  source: WaterProfile,
+  target: WaterProfile,
+  volumes: Volumes,
+  mode: VolumeMode = 'mash',
+  opts: NNLSOptions = {}
+): NNLSResult {
+  const catalog = opts.catalog || SALTS
+  const {
+    allowedSalts = defaultAllowedSalts(catalog),
+    maxSalts = Infinity,
+    maxSaltAmount = 12,
+    weights = {},
+    assumeCarbonateDissolution,
+    constraints = {}
+  } = opts
+
+  const perGram: Record<string, WaterProfile> = {}
+  for (const name of allowedSalts) {
+    const salt = catalog[name]
+    if (!salt) continue
+    perGram[name] = calculateSaltContribution(salt, 1, volumes, mode, 'mash', { assumeCarbonateDissolution })
+  }
+
+  const withSalts = (additions: SaltAdditions): WaterProfile => {
+    const w: WaterProfile = { ...source }
+    for (const [salt, grams] of Object.entries(additions)) {
+      IONS.forEach((ion) => { (w as any)[ion] += (perGram[salt] as any)[ion] * grams })
+    }
+    return w
+  }
+  const zero: WaterProfile = { calcium: 0, magnesium: 0, sodium: 0, sulfate: 0, chloride: 0, bicarbonate: 0 }
+  const limit = (salt: string) => saltLimit(catalog[salt], maxSaltAmount, volumes, mode, opts.dissolution)
+
+  let free = Object.keys(perGram)
+  const pinned: SaltAdditions = {}
+  const activeCaps = new Set<keyof IonConstraints>()
+  const band = ratioBand(opts)
+  const ratioWeight = Math.sqrt(Math.max(0, opts.ratioWeight ?? 1))
+  let ratioEdge: number | undefined // band edge the SO4:Cl row pulls toward, once the ratio falls outside
+  // Ranged ions start at the target, are released while inside their band and
+  // pinned to the nearest edge if they later drift out (each changes state at most twice)
+  const ranges = opts.targetRanges || {}
+  const rangeRow: Partial<Record<IonKey, 'target' | 'free' | number>> = {}
+  for (const ion of IONS) if (ranges[ion]) rangeRow[ion] = 'target'
+  let additions: SaltAdditions = {}
+
+  for (let round = 0; round < 3 * (free.length + CAPPED.length + 1) + 2 * IONS.length + 1; round++) {
+    const base = withSalts(pinned)
+    const A: number[][] = []
+    const b: number[] = []
+    for (const ion of IONS) {
+      const row = rangeRow[ion]
+      if (row === 'free') continue
+      const goal = typeof row === 'number' ? row : (target as any)[ion]
+      const sw = Math.sqrt(Math.max(0, weights[ion] ?? 1))
+      A.push(free.map((salt) => (perGram[salt] as any)[ion] * sw))
+      b.push((goal - (base as any)[ion]) * sw)
+    }
+    for (const cap of CAPPED) {
+      if (!activeCaps.has(cap.key)) continue
+      A.push(free.map((salt) => cap.value({ ...zero, ...perGram[salt] }) * CAP_WEIGHT))
+      b.push((constraints[cap.key]! - cap.value(base)) * CAP_WEIGHT)
+    }
+    if (ratioEdge !== undefined) {
+      const edge = ratioEdge
+      A.push(free.map((salt) => (perGram[salt].sulfate - edge * perGram[salt].chloride) * ratioWeight))
+      b.push((edge * base.chloride - base.sulfate) * ratioWeight)
+    }
+
+    const x = free.length > 0 ? nnls(A, b) : []
+    additions = { ...pinned }
+    free.forEach((salt, j) => { if (x[j] > 1e-9) additions[salt] = x[j] })
+
+    // A newly violated cap becomes a row; pins are released so they can be re-derived under it
+    const achieved = withSalts(additions)
+    const violated = CAPPED.find((cap) => {
+      const limit = constraints[cap.key]
+      return typeof limit === 'number' && !activeCaps.has(cap.key) && cap.value(achieved) > limit + 1e-6
+    })
+    if (violated) {
+      activeCaps.add(violated.key)
+      free = [...free, ...Object.keys(pinned)]
+      for (const salt of Object.keys(pinned)) delete pinned[salt]
+      continue
+    }
+
+    if (ratioEdge === undefined && band && ratioWeight > 0 && ratioPenalty(achieved, band) > 1e-6) {
+      const inset = (band.max - band.min) * 0.02
+      ratioEdge = achieved.sulfate < band.min * achieved.chloride ? band.min + inset : band.max - inset
+      continue
+    }
+
+    const inside = IONS.filter((ion) => rangeRow[ion] === 'target' && ionDistance(achieved, target, ion, ranges) === 0)
+    if (inside.length > 0) {
+      inside.forEach((ion) => { rangeRow[ion] = 'free' })
+      continue
+    }
+    const drifted = IONS.find((ion) => rangeRow[ion] === 'free' && ionDistance(achieved, target, ion, ranges) > 1e-6)
+    if (drifted) {
+      // Aim slightly inside the band so rounding to 0.1 g does not land just outside it
+      const [min, max] = ranges[drifted]!
+      const inset = (max - min) * 0.02
+      rangeRow[drifted] = (achieved as any)[drifted] < min ? min + inset : max - inset
+      continue
+    }
+
+    // Pin the salt furthest over its limit (at most what the caps allow) and re-solve the rest
+    const over = free.filter((salt) => (additions[salt] || 0) > limit(salt))
+      .sort((a, c) => additions[c] - limit(c) - (additions[a] - limit(a)))[0]
+    if (over) {
+      pinned[over] = Math.min(limit(over), maxGramsWithinConstraints(withSalts(pinned), perGram[over], constraints))
+      free = free.filter((salt) => salt !== over)
+      continue
+    }
+
+    const used = Object.keys(additions)
+    if (used.length > maxSalts) {
+      const smallest = used.filter((salt) => free.includes(salt)).sort((a, c) => additions[a] - additions[c])[0]
+      if (smallest) {
+        free = free.filter((salt) => salt !== smallest)
+        continue
+      }
+    }
+    break
+  }
+
+  // Round to 0.1 g; round down instead if rounding up would break a cap
+  const exact = withSalts(additions)
+  let rounded: SaltAdditions = {}
+  for (const [salt, grams] of Object.entries(additions)) rounded[salt] = Math.round(grams * 10) / 10
+  if (constraintExcess(withSalts(rounded), constraints) > constraintExcess(exact, constraints) + 1e-9) {
+    rounded = {}
+    for (const [salt, grams] of Object.entries(additions)) rounded[salt] = Math.floor(grams * 10) / 10
+  }
+  for (const k of Object.keys(rounded)) {
+    if (rounded[k] < 0.1) delete rounded[k]
+  }
+
+  const achieved = withSalts(rounded)
+  const residuals = {} as Record<IonKey, number>
+  IONS.forEach((ion) => {
+    const range = ranges[ion]
+    const value = (achieved as any)[ion] as number
+    const residual = range ? value - Math.min(Math.max(value, range[0]), range[1]) : value - (target as any)[ion]
+    residuals[ion] = Math.round(residual * 10) / 10
+  })
+  return { additions: rounded, residuals }
+}
@@ -1,16 +1,21 @@
 import { WaterProfile, Volumes, GrainBillItem } from '../types'
 import { CHEMISTRY_CONSTANTS } from '../data/constants'
+import { matchGrain, GrainMatch } from '../data/grains'
+import { residualAlkalinity, residualAlkalinityMEq, ionicStrength } from './metrics'
+import { ebcToSRM } from './units'
 
 export function calculateMashPH_Simple(
   water: WaterProfile,
   grains: { color: number; weight: number }[],
   _volumes: Volumes
 ): number {
-  const RA = (water.bicarbonate * 0.82) - (water.calcium / 1.4) - (water.magnesium / 1.7)
+  const RA = residualAlkalinity(water)
   const totalW = grains.reduce((s, g) => s + g.weight, 0) || 1
   const avgColor = grains.reduce((s, g) => s + g.color * g.weight, 0) / totalW
   const basePH = 5.8
-  const RAEffect = RA * -0.003
+  // Positive RA is alkalinity the grist's acidity does not cancel, so it raises mash
+  // pH: about 0.03 per 10 ppm as CaCO3 (Palmer). Calcium-rich water (negative RA) lowers it.
+  const RAEffect = RA * 0.003
   const colorEffect = avgColor * -0.02
   const ph = basePH + RAEffect + colorEffect
   return Math.max(4.5, Math.min(6.5, ph))
@@ -43,7 +48,7 @@ function getMaltBufferCapacity(grain: GrainBillItem): number {
 
 function getMaltAcidity(grain: GrainBillItem): number {
   const { type, color } = grain
-  const lovibond = color / 1.97
+  const lovibond = ebcToSRM(color)
   switch (type) {
     case 'base':
       return lovibond * 0.1
@@ -60,13 +65,6 @@ function getMaltAcidity(grain: GrainBillItem): number {
   }
 }
 
-function effectiveAlkalinityAsCaCO3(water: WaterProfile): number {
-  const alkalinity = water.bicarbonate * 50 / 61
-  const calciumEffect = (water.calcium || 0) * 0.04
-  const magnesiumEffect = (water.magnesium || 0) * 0.03
-  return alkalinity - calciumEffect - magnesiumEffect
-}
-
 function temperatureCorrect(ph: number, temperatureC: number): number {
   const diff = temperatureC - 25
   return ph - diff * CHEMISTRY_CONSTANTS.TEMP_CORRECTION_FACTOR
@@ -88,9 +86,7 @@ export function calculateMashPH_Kaiser(
     totalAcidity += getMaltAcidity(g) * g.weight
   }
   const avgBufferCap = totalBufferCap / totalWeight
-  const effAlk = effectiveAlkalinityAsCaCO3(water)
-  const alkalinityMEq = effAlk * 0.02
-  const waterChargePerKg = alkalinityMEq * mashThicknessLPerKg
+  const waterChargePerKg = residualAlkalinityMEq(water) * mashThicknessLPerKg
   const maltChargePerKg = totalAcidity / totalWeight
   const netCharge = waterChargePerKg - maltChargePerKg
   const pHShift = netCharge / avgBufferCap
@@ -98,3 +94,238 @@ export function calculateMashPH_Kaiser(
   pH = temperatureCorrect(pH, mashTemperatureC)
   return Math.max(4.5, Math.min(6.5, pH))
 }
+
+// --- Advanced model (charge balance with carbonate/phosphate speciation) ---
+// Replaces src/models/ph/advanced.ts, whose balance sees the malt only as 10 mmol/kg of
+// phosphate with no counter-ion, color or acidity, so pale and roasted grists get the same pH.
+// Here the malt's buffer and acidity carry its color, and its phosphate (as KH2PO4) is the
+// part of that buffer solved by speciation rather than linearized.
+
+export interface ChemicalSpecies {
+  H: number       // mol/L
+  OH: number
+  H2CO3: number
+  HCO3: number
+  CO3: number
+  H3PO4: number
+  H2PO4: number
+  HPO4: number
+  PO4: number
+}
+
+export interface AdvancedPHResult {
+  pH: number
+  ionicStrength: number
+  activityCoefficients: { monovalent: number; divalent: number }
+  species: ChemicalSpecies
+  chargeBalance: number // residual mEq/L at the solved pH
+  iterations: number
+  temperature: number
+}
+
+const DISTILLED_WATER_MASH_PH = 5.7
+const GRAIN_PHOSPHATE_MMOL_PER_KG = 10
+
+// Davies equation
+function activityCoefficient(charge: number, I: number): number {
+  const sqrtI = Math.sqrt(I)
+  return Math.pow(10, -0.509 * charge * charge * (sqrtI / (1 + sqrtI) - 0.3 * I))
+}
+
+function pKaAt(pKa25: number, temperatureC: number): number {
+  return pKa25 - CHEMISTRY_CONSTANTS.TEMP_CORRECTION_FACTOR * (temperatureC - 25)
+}
+
+// Fractions of a polyprotic acid in each protonation state, fully protonated first
+function speciationFractions(h: number, Ka: number[]): number[] {
+  const terms = [1]
+  for (let i = 0; i < Ka.length; i++) terms.push(terms[i] * Ka[i] / h)
+  const sum = terms.reduce((s, t) => s + t, 0)
+  return terms.map(t => t / sum)
+}
+
+/**
+ * Solves the mash charge balance by bisection. Protons released by the malt
+ * (linear buffer around the distilled-water pH, its phosphate by speciation,
+ * plus fixed acidity) and by calcium/magnesium phosphate precipitation
+ * (Kolbach) must equal the protons
+ * taken up by the water's carbonate system. Acid constants are corrected for
+ * temperature and, via Davies activity coefficients, for ionic strength.
+ */
+export function calculateMashPH_AdvancedDetailed(
+  water: WaterProfile,
+  grainBill: GrainBillItem[],
+  mashThicknessLPerKg: number = 3.0,
+  mashTemperatureC: number = 65,
+  maxIterations: number = 100
+): AdvancedPHResult {
+  const I = ionicStrength(water)
+  const g1 = activityCoefficient(1, I)
+  const g2 = activityCoefficient(2, I)
+  // Conditional constants with pH taken as H+ activity
+  const carbonateKa = [
+    Math.pow(10, -pKaAt(CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA1, mashTemperatureC)) / g1,
+    Math.pow(10, -pKaAt(CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA2, mashTemperatureC)) * g1 / g2
+  ]
+  const g3 = activityCoefficient(3, I)
+  const phosphateKa = [
+    Math.pow(10, -pKaAt(CHEMISTRY_CONSTANTS.PHOSPHORIC_ACID_PKA1, mashTemperatureC)) / g1,
+    Math.pow(10, -pKaAt(CHEMISTRY_CONSTANTS.PHOSPHORIC_ACID_PKA2, mashTemperatureC)) * g1 / g2,
+    Math.pow(10, -pKaAt(CHEMISTRY_CONSTANTS.PHOSPHORIC_ACID_PKA3, mashTemperatureC)) * g2 / g3
+  ]
+  const Kw = Math.pow(10, -14) * Math.exp(0.04 * (mashTemperatureC - 25))
+
+  const totalWeight = grainBill.reduce((s, g) => s + g.weight, 0)
+  const litersPerKg = Math.max(0.1, mashThicknessLPerKg)
+  let bufferPerL = 0 // mEq/L/pH
+  let acidityPerL = 0 // mEq/L
+  for (const g of grainBill) {
+    const buffer = g.type === 'acidulated' ? CHEMISTRY_CONSTANTS.BASE_MALT_BUFFER : getMaltBufferCapacity(g)
+    bufferPerL += buffer * g.weight
+    acidityPerL += getMaltAcidity(g) * g.weight
+  }
+  const mashLiters = totalWeight * litersPerKg
+  bufferPerL = mashLiters > 0 ? bufferPerL / mashLiters : CHEMISTRY_CONSTANTS.BASE_MALT_BUFFER / litersPerKg
+  acidityPerL = mashLiters > 0 ? acidityPerL / mashLiters : 0
+
+  // Malt phosphate protons released relative to the distilled-water mash; its slope there
+  // is taken out of the linear malt buffer so the phosphate is not counted twice
+  const phosphateTotal = GRAIN_PHOSPHATE_MMOL_PER_KG / litersPerKg // mmol/L
+  const protonsLost = (pH: number) => {
+    const [, p1, p2, p3] = speciationFractions(Math.pow(10, -pH), phosphateKa)
+    return phosphateTotal * (p1 + 2 * p2 + 3 * p3)
+  }
+  const phosphateRelease = (pH: number) => protonsLost(pH) - protonsLost(DISTILLED_WATER_MASH_PH)
+  const phosphateBuffer = (protonsLost(DISTILLED_WATER_MASH_PH + 0.01) - protonsLost(DISTILLED_WATER_MASH_PH - 0.01)) / 0.02
+  bufferPerL = Math.max(0, bufferPerL - phosphateBuffer)
+
+  // Water alkalinity as mEq/L, carried as carbonate at the source pH
+  const carbonateTotal = (water.bicarbonate || 0) / 61.02 // mmol/L
+  // Kolbach: the alkalinity calcium and magnesium cancel, i.e. the hardness share of RA
+  const kolbachRelease = -residualAlkalinityMEq({ ...water, bicarbonate: 0, carbonate: 0 })
+
+  const residual = (pH: number) => {
+    const h = Math.pow(10, -pH)
+    const [, a1, a2] = speciationFractions(h, carbonateKa)
+    const protonsTaken = carbonateTotal * (1 - a1 - 2 * a2)
+    const protonsReleased = bufferPerL * (pH - DISTILLED_WATER_MASH_PH) + phosphateRelease(pH) + acidityPerL + kolbachRelease
+    return protonsTaken - protonsReleased
+  }
+
+  let low = 4.0
+  let high = 7.0
+  let pH = (low + high) / 2
+  let iterations = 0
+  for (; iterations < maxIterations; iterations++) {
+    pH = (low + high) / 2
+    const r = residual(pH)
+    if (Math.abs(r) < 1e-6 || high - low < 1e-5) break
+    // Residual falls as pH rises
+    if (r > 0) low = pH
+    else high = pH
+  }
+
+  const h = Math.pow(10, -pH)
+  const [c0, c1, c2] = speciationFractions(h, carbonateKa)
+  const [p0, p1, p2, p3] = speciationFractions(h, phosphateKa)
+  const carbonateMol = carbonateTotal / 1000
+  const phosphateMol = phosphateTotal / 1000
+  const species: ChemicalSpecies = {
+    H: h / g1,
+    OH: Kw / h / g1,
+    H2CO3: c0 * carbonateMol,
+    HCO3: c1 * carbonateMol,
+    CO3: c2 * carbonateMol,
+    H3PO4: p0 * phosphateMol,
+    H2PO4: p1 * phosphateMol,
+    HPO4: p2 * phosphateMol,
+    PO4: p3 * phosphateMol
+  }
+
+  return {
+    pH: Math.max(4.5, Math.min(6.5, pH)),
+    ionicStrength: I,
+    activityCoefficients: { monovalent: g1, divalent: g2 },
+    species,
+    chargeBalance: residual(pH),
+    iterations,
+    temperature: mashTemperatureC
+  }
+}
+
+export function calculateMashPH_Advanced(
+  water: WaterProfile,
+  grainBill: GrainBillItem[],
+  mashThicknessLPerKg: number = 3.0,
+  mashTemperatureC: number = 65
+): number {
+  return calculateMashPH_AdvancedDetailed(water, grainBill, mashThicknessLPerKg, mashTemperatureC).pH
+}
+
+// --- Grain database model (Bru'n Water style) ---
+
+export interface GrainDatabaseMatch extends GrainMatch {
+  name: string   // name as given in the grain bill
+  weight: number // kg
+}
+
+export interface GrainDatabasePHResult {
+  pH: number
+  distilledWaterPH: number   // buffer-weighted DI pH of the grist
+  bufferCapacity: number     // mEq/pH for the whole grist
+  residualAlkalinity: number // mEq for the whole mash (Kolbach)
+  grains: GrainDatabaseMatch[]
+}
+
+export function matchGrainBill(grainBill: GrainBillItem[]): GrainDatabaseMatch[] {
+  return grainBill.map(g => ({
+    name: g.name,
+    weight: g.weight,
+    ...matchGrain(g.name, typeof g.color === 'number' ? ebcToSRM(g.color) : undefined, g.id)
+  }))
+}
+
+/**
+ * Each malt pulls the mash toward its distilled-water pH with a strength set by
+ * its buffer capacity, and the water's residual alkalinity pushes against the
+ * whole grist: sum(w * b * (pH - pH_DI)) = RA * mash liters.
+ */
+export function calculateMashPH_GrainDatabaseDetailed(
+  water: WaterProfile,
+  grainBill: GrainBillItem[],
+  mashThicknessLPerKg: number = 3.0
+): GrainDatabasePHResult {
+  const grains = matchGrainBill(grainBill)
+
+  let bufferCapacity = 0
+  let weightedPH = 0
+  for (const g of grains) {
+    bufferCapacity += g.data.bufferCapacity * g.weight
+    weightedPH += g.data.bufferCapacity * g.weight * g.data.diWaterPH
+  }
+  if (!bufferCapacity) {
+    return { pH: 5.7, distilledWaterPH: 5.7, bufferCapacity: 0, residualAlkalinity: 0, grains }
+  }
+
+  const distilledWaterPH = weightedPH / bufferCapacity
+  const totalWeight = grainBill.reduce((s, g) => s + g.weight, 0)
+  const mashLiters = totalWeight * Math.max(0.1, mashThicknessLPerKg)
+  const residualAlkalinity = residualAlkalinityMEq(water) * mashLiters
+
+  const pH = distilledWaterPH + residualAlkalinity / bufferCapacity
+  return {
+    pH: Math.max(4.5, Math.min(6.5, pH)),
+    distilledWaterPH,
+    bufferCapacity,
+    residualAlkalinity,
+    grains
+  }
+}
+
+export function calculateMashPH_GrainDatabase(
+  water: WaterProfile,
+  grainBill: GrainBillItem[],
+  mashThicknessLPerKg: number = 3.0
+): number {
+  return calculateMashPH_GrainDatabaseDetailed(water, grainBill, mashThicknessLPerKg).pH
+}
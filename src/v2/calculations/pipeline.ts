@@ -0,0 +1,231 @@
+import { WaterProfile, Volumes, VolumeMode, GrainBillItem, PHModel } from '../types'
+import { SALTS } from '../data/salts'
+import type { Equilibrium, GrainMatchReport } from '../types/api'
+import { calculateSaltContribution } from './ppm'
+import { acidMEqPerMl, acidulatedMaltMEqPerKg, bicarbonateReductionFromAcids, anionPPMFromAcids, ACIDULATED_MALT_LACTIC_PERCENT, DEFAULT_MASH_PH } from './acids'
+import { isStagedAdditions, toStagedAdditions, distributeByMode, applyStageSalts, calculateStagedProfiles, stagedSolubilityIssues, StageAdditions, StagedAdditions, StagedOptions, StagedProfiles } from './staged'
+import { checkSolubility, SolubilityIssue } from './dissolution'
+import { boilVolumes, BoilVolumes } from './volumes'
+import { checkIonBalance, IonBalance } from './ion-balance'
+import { calculateWaterMetricsSet, WaterMetricsSet } from './metrics'
+import { calculateMashPH_Simple, calculateMashPH_Kaiser, calculateMashPH_Advanced, calculateMashPH_AdvancedDetailed, calculateMashPH_GrainDatabase, matchGrainBill } from './ph'
+
+const IONS = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate'] as const
+
+// What a pH model sees besides the water
+export interface MashContext {
+  grainBill: GrainBillItem[]
+  volumes: Volumes
+  mashThickness: number // L/kg
+  temperature: number   // °C
+}
+
+export type MashPHModel = (water: WaterProfile, mash: MashContext) => number
+
+export const PH_MODELS: Record<PHModel, MashPHModel> = {
+  simple: (water, { grainBill, volumes }) => calculateMashPH_Simple(water, grainBill.map(g => ({ color: g.color, weight: g.weight })), volumes),
+  kaiser: (water, { grainBill, mashThickness, temperature }) => calculateMashPH_Kaiser(water, grainBill, mashThickness, temperature),
+  advanced: (water, { grainBill, mashThickness, temperature }) => calculateMashPH_Advanced(water, grainBill, mashThickness, temperature),
+  brunwater: (water, { grainBill, mashThickness }) => calculateMashPH_GrainDatabase(water, grainBill, mashThickness)
+}
+
+export const MASH_TEMPERATURE = 65
+
+// Liters of mash water per kg of grain, floored so an empty grain bill still predicts
+export function mashThickness(grainBill: GrainBillItem[], volumes: Volumes): number {
+  const grainKg = Math.max(0.0001, grainBill.reduce((s, g) => s + g.weight, 0))
+  return Math.max(0.1, volumes.mash / grainKg)
+}
+
+// Flat salts dissolved according to the volume mode ('mash' or 'total')
+export function applySalts(
+  water: WaterProfile,
+  salts: Record<string, number> | undefined,
+  volumes: Volumes,
+  mode: VolumeMode,
+  opts: StagedOptions = {}
+): WaterProfile {
+  const result: WaterProfile = { ...water }
+  for (const [saltId, grams] of Object.entries(salts || {})) {
+    const salt = (opts.catalog || SALTS)[saltId]
+    if (!salt || !grams) continue
+    const c = calculateSaltContribution(salt, grams, volumes, mode, undefined, opts)
+    IONS.forEach((ion) => { result[ion] += c[ion] })
+  }
+  return result
+}
+
+// Acid mEq that brings the predicted mash pH down to targetPH, found by bisection.
+// Acid beyond the water's alkalinity is carried as negative bicarbonate so it keeps lowering pH.
+export function solveAcidMEqForTarget(
+  predict: (water: WaterProfile) => number,
+  water: WaterProfile,
+  targetPH: number,
+  mashVolumeL: number
+): number {
+  if (mashVolumeL <= 0 || predict(water) <= targetPH) return 0
+  const acidified = (mEq: number) => ({ ...water, bicarbonate: water.bicarbonate - (mEq / mashVolumeL) * 61 })
+  let high = 10 * mashVolumeL
+  for (let i = 0; i < 10 && predict(acidified(high)) > targetPH; i++) high *= 2
+  if (predict(acidified(high)) > targetPH) return 0 // target out of the model's reach
+  let low = 0
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2
+    if (predict(acidified(mid)) > targetPH) low = mid
+    else high = mid
+  }
+  return high
+}
+
+export interface AcidRecommendation {
+  lactic_88: number      // ml
+  phosphoric_85: number  // ml
+  acidulatedMaltKg: number
+  estimatedHCO3Drop: number // ppm in the mash water
+}
+
+// Liquid acid and acidulated malt alternatives for the same mEq demand
+export function recommendAcidsForTarget(
+  mEqNeeded: number,
+  targetPH: number,
+  mashVolumeL: number,
+  lacticAcidPercent: number = ACIDULATED_MALT_LACTIC_PERCENT
+): AcidRecommendation {
+  if (!(mEqNeeded > 0)) return { lactic_88: 0, phosphoric_85: 0, acidulatedMaltKg: 0, estimatedHCO3Drop: 0 }
+  const lactic_88 = mEqNeeded / acidMEqPerMl('lactic_88', targetPH)
+  const phosphoric_85 = mEqNeeded / acidMEqPerMl('phosphoric_85', targetPH)
+  const acidulatedMaltKg = mEqNeeded / acidulatedMaltMEqPerKg(lacticAcidPercent, targetPH)
+  const estimatedHCO3Drop = (mEqNeeded / mashVolumeL) * 61
+  return { lactic_88, phosphoric_85, acidulatedMaltKg, estimatedHCO3Drop }
+}
+
+// Solved equilibrium state, so clients can show why the advanced model landed where it did
+export function equilibriumDetails(water: WaterProfile, mash: MashContext): Equilibrium {
+  const { ionicStrength, activityCoefficients, species, chargeBalance } = calculateMashPH_AdvancedDetailed(water, mash.grainBill, mash.mashThickness, mash.temperature)
+  return { ionicStrength, activityCoefficients, species, chargeBalance }
+}
+
+// Which GRAIN_DATABASE entry each grain-bill item resolved to
+export function grainMatches(grainBill: GrainBillItem[]): GrainMatchReport[] {
+  return matchGrainBill(grainBill).map(g => ({
+    name: g.name,
+    matchedId: g.id,
+    matchedName: g.data.name,
+    matchedBy: g.matchedBy,
+    diWaterPH: g.data.diWaterPH,
+    bufferCapacity: g.data.bufferCapacity
+  }))
+}
+
+export interface PipelineInput {
+  sourceWater: WaterProfile
+  grainBill: GrainBillItem[] // kg, EBC
+  volumes: Volumes           // liters
+  additions?: StageAdditions | StagedAdditions
+  volumeMode?: VolumeMode    // default 'mash'; staged additions are always staged
+  phModel?: PHModel | MashPHModel // a model name, or any function of water and mash
+  saltOptions?: StagedOptions
+  acidPH?: number            // pH the additions' acids are credited at, default DEFAULT_MASH_PH
+  // Without acids in the additions: acid to reach this pH is recommended and applied
+  targetMashPH?: number
+  // Without acids or targetMashPH: aim for target once the prediction is above max
+  mashPHWindow?: { max: number; target: number }
+  lacticAcidPercent?: number // of acidulated malt
+}
+
+export interface PipelineResult {
+  staged?: StagedAdditions      // the additions as stages, when applied per stage
+  volumeMode: VolumeMode
+  afterSalts: WaterProfile
+  mashWater: WaterProfile       // salts and acids; bicarbonate negative when acid exceeds alkalinity
+  final: WaterProfile           // mashWater with bicarbonate clamped at zero
+  profiles: StagedProfiles
+  mashThickness: number
+  beforeAcidPH: number
+  mashPH: number
+  acidTargetPH?: number
+  acidRecommendation?: AcidRecommendation
+  metrics: WaterMetricsSet
+  solubility: SolubilityIssue[]
+  ionBalance: IonBalance        // of the source water
+  boilVolumes: BoilVolumes
+  equilibrium?: Equilibrium     // advanced model
+  grainMatches?: GrainMatchReport[] // brunwater model
+}
+
+/**
+ * Source water → salts → acids → mash pH → analysis, the way every endpoint
+ * computes it. Flat salts dissolve by volumeMode; staged additions (or
+ * volumeMode 'staged') dose each stage and the mash stage feeds the pH model.
+ * Acids come from the additions, or are solved for targetMashPH (or the
+ * window) when there are none. pH is predicted on the unclamped mash water.
+ */
+export function runPipeline(input: PipelineInput): PipelineResult {
+  const { sourceWater, grainBill, volumes, additions, saltOptions = {} } = input
+  const volumeMode = input.volumeMode || 'mash'
+  const catalog = saltOptions.catalog || SALTS
+  const grainKg = grainBill.reduce((s, g) => s + g.weight, 0)
+
+  // Salts
+  const staged = volumeMode === 'staged' || isStagedAdditions(additions) ? toStagedAdditions(additions) : undefined
+  const flat = (staged ? undefined : additions as StageAdditions | undefined) || {}
+  const afterSalts = staged
+    ? applyStageSalts(sourceWater, staged.mash?.salts, volumes, 'mash', saltOptions)
+    : applySalts(sourceWater, flat.salts, volumes, volumeMode, saltOptions)
+
+  // pH model
+  const mash: MashContext = { grainBill, volumes, mashThickness: mashThickness(grainBill, volumes), temperature: MASH_TEMPERATURE }
+  const model = typeof input.phModel === 'function' ? input.phModel : PH_MODELS[input.phModel || 'simple']
+  const predict = (water: WaterProfile) => model(water, mash)
+  const beforeAcidPH = predict(afterSalts)
+
+  // Acids
+  const mashWater: WaterProfile = { ...afterSalts }
+  const acids = staged ? staged.mash?.acids : flat.acids
+  let acidTargetPH: number | undefined
+  let acidRecommendation: AcidRecommendation | undefined
+  if (acids && Object.keys(acids).length > 0) {
+    mashWater.bicarbonate -= bicarbonateReductionFromAcids(acids, volumes.mash, input.acidPH ?? DEFAULT_MASH_PH)
+    const anions = anionPPMFromAcids(acids, volumes.mash)
+    mashWater.sulfate += anions.sulfate
+    mashWater.chloride += anions.chloride
+  } else {
+    const phWindow = input.mashPHWindow
+    acidTargetPH = typeof input.targetMashPH === 'number'
+      ? input.targetMashPH
+      : phWindow && beforeAcidPH > phWindow.max ? phWindow.target : undefined
+    if (typeof acidTargetPH === 'number' && beforeAcidPH > acidTargetPH) {
+      const mEq = solveAcidMEqForTarget(predict, mashWater, acidTargetPH, volumes.mash)
+      const rec = recommendAcidsForTarget(mEq, acidTargetPH, volumes.mash, input.lacticAcidPercent)
+      if (rec.lactic_88 > 0) {
+        mashWater.bicarbonate -= rec.estimatedHCO3Drop
+        acidRecommendation = rec
+      }
+    }
+  }
+
+  // Analysis
+  const final: WaterProfile = { ...mashWater, bicarbonate: Math.max(0, mashWater.bicarbonate) }
+  const phModel = typeof input.phModel === 'string' ? input.phModel : undefined
+  return {
+    staged,
+    volumeMode,
+    afterSalts,
+    mashWater,
+    final,
+    profiles: calculateStagedProfiles(mashWater, sourceWater, staged || distributeByMode(flat.salts, volumeMode, volumes), volumes, { ...saltOptions, grainKg }),
+    mashThickness: mash.mashThickness,
+    beforeAcidPH,
+    mashPH: predict(mashWater),
+    acidTargetPH,
+    acidRecommendation,
+    metrics: calculateWaterMetricsSet(sourceWater, afterSalts, final),
+    solubility: staged
+      ? stagedSolubilityIssues(staged, volumes, saltOptions.dissolution, catalog)
+      : checkSolubility(flat.salts, volumes, volumeMode, undefined, saltOptions.dissolution, catalog),
+    ionBalance: checkIonBalance(sourceWater),
+    boilVolumes: boilVolumes(volumes, grainKg),
+    equilibrium: phModel === 'advanced' ? equilibriumDetails(mashWater, mash) : undefined,
+    grainMatches: phModel === 'brunwater' ? grainMatches(grainBill) : undefined
+  }
+}
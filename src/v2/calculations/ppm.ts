@@ -1,5 +1,7 @@
-import { SALTS, SaltDefinition } from '../data/salts'
+import { SaltDefinition, gramsPerUnit } from '../data/salts'
 import { WaterProfile, Volumes, VolumeMode } from '../types'
+import { DissolutionOptions, dissolutionConditions, maxDissolvedGrams } from './dissolution'
+import { effectiveVolume } from './volumes'
 
 // Molar masses (g/mol) for conversion logic
 const MOLAR_MASS = {
@@ -15,32 +17,28 @@ export function calculatePPM(
   mode: VolumeMode = 'mash',
   location?: 'mash' | 'sparge' | 'boil'
 ): number {
-  let effectiveVolume = 0
-  switch (mode) {
-    case 'mash':
-      effectiveVolume = volumes.mash ?? volumes.total ?? 0
-      break
-    case 'staged':
-      if (location === 'mash') effectiveVolume = volumes.mash ?? 0
-      else if (location === 'sparge') effectiveVolume = volumes.sparge ?? 0
-      else effectiveVolume = volumes.total ?? 0
-      break
-    default:
-      effectiveVolume = volumes.total ?? 0
-  }
-  if (!effectiveVolume || !ionsPPMPerGram || !saltGrams) return 0
-  return (saltGrams / effectiveVolume) * ionsPPMPerGram
+  const liters = effectiveVolume(volumes, mode, location)
+  if (!liters || !ionsPPMPerGram || !saltGrams) return 0
+  return (saltGrams / liters) * ionsPPMPerGram
 }
 
+// grams of a dry salt, or ml of a stock solution (its ppm per unit is per ml).
+// assumeCarbonateDissolution defaults to true here and nowhere else, so flat and staged dosing agree.
 export function calculateSaltContribution(
   salt: SaltDefinition,
   grams: number,
   volumes: Volumes,
   mode: VolumeMode = 'mash',
   location?: 'mash' | 'sparge' | 'boil',
-  options: { assumeCarbonateDissolution?: boolean } = { assumeCarbonateDissolution: true }
+  options: { assumeCarbonateDissolution?: boolean; dissolution?: DissolutionOptions } = {}
 ): WaterProfile {
   const ions = salt.ionsPPMPerGram
+  const assumeCarbonateDissolution = options.assumeCarbonateDissolution ?? true
+  // With dissolution options, sparingly soluble salts only contribute what can dissolve
+  if (options.dissolution) {
+    const conditions = dissolutionConditions(mode, location, options.dissolution)
+    grams = Math.min(grams, maxDissolvedGrams(salt, effectiveVolume(volumes, mode, location), conditions))
+  }
   // Base ion contributions
   const calcium = ions.calcium ? calculatePPM(grams, ions.calcium, volumes, mode, location) : 0
   const magnesium = ions.magnesium ? calculatePPM(grams, ions.magnesium, volumes, mode, location) : 0
@@ -57,7 +55,7 @@ export function calculateSaltContribution(
   const carbonatePPM = ions.carbonate ? calculatePPM(grams, ions.carbonate, volumes, mode, location) : 0
   let carbonate: number | undefined = undefined
   if (carbonatePPM) {
-    if (options.assumeCarbonateDissolution) {
+    if (assumeCarbonateDissolution) {
       const ratio = MOLAR_MASS.HCO3 / MOLAR_MASS.CO3 // ≈1.0168
       bicarbonate += carbonatePPM * ratio
       carbonate = 0 // treat as converted
@@ -70,9 +68,9 @@ export function calculateSaltContribution(
   // Assume full conversion to bicarbonate: Ca(OH)2 + 2 CO2 -> Ca(HCO3)2
   // Per gram Ca(OH)2, bicarbonate produced at 1 L is:
   // (2 * M(HCO3) / M(Ca(OH)2)) g/L ≈ 1.646 g/L = 1646 ppm
-  if (options.assumeCarbonateDissolution && /Ca\(OH\)2/.test(salt.formula)) {
+  if (assumeCarbonateDissolution && /Ca\(OH\)2/.test(salt.formula || '')) {
     const bicarbPerGram = (2 * MOLAR_MASS.HCO3 / MOLAR_MASS.CaOH2) * 1000 // mg/L per gram
-    bicarbonate += calculatePPM(grams, bicarbPerGram, volumes, mode, location)
+    bicarbonate += calculatePPM(grams * gramsPerUnit(salt), bicarbPerGram, volumes, mode, location)
   }
 
   return {
@@ -88,4 +86,3 @@ export function calculateSaltContribution(
   }
 }
 
-// expose SALTS via v2/data
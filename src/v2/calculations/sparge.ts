@@ -0,0 +1,103 @@
+import { WaterProfile } from '../types'
+import { CHEMISTRY_CONSTANTS } from '../data/constants'
+import { parseAcidId, acidMEqPerMl, anionPPMFromAcids } from './acids'
+
+export interface SpargeAcidificationInput {
+  water: WaterProfile
+  startPH: number
+  volumeL: number
+  targetPH?: number
+  acid?: string // acid id, e.g. lactic_88
+}
+
+type TrackedIon = 'bicarbonate' | 'sulfate' | 'chloride' | 'sodium'
+
+export interface SpargeAcidificationResult {
+  acid: string
+  ml: number
+  mEq: number
+  targetPH: number
+  alkalinity: { before: number; after: number } // ppm as CaCO3
+  water: WaterProfile
+  changes: Record<TrackedIon, number> // ppm; none of the acids carry sodium, reported for completeness
+  sulfateChlorideRatio: { before: number | null; after: number | null }
+}
+
+// Molar masses (g/mol)
+const MOLAR_MASS = { HCO3: 61.016, CO3: 60.009 }
+
+const Ka1 = Math.pow(10, -CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA1)
+const Ka2 = Math.pow(10, -CHEMISTRY_CONSTANTS.CARBONIC_ACID_PKA2)
+const Kw = 1e-14
+
+// Charge carried per mol of total carbonate at pH (α1 + 2·α2)
+function carbonateCharge(pH: number): { alpha1: number; charge: number } {
+  const h = Math.pow(10, -pH)
+  const d = h * h + h * Ka1 + Ka1 * Ka2
+  const alpha1 = h * Ka1 / d
+  const alpha2 = Ka1 * Ka2 / d
+  return { alpha1, charge: alpha1 + 2 * alpha2 }
+}
+
+// Alkalinity in mmol/L for total carbonate (mol/L) at pH
+function alkalinityAt(totalCarbonate: number, pH: number): number {
+  const h = Math.pow(10, -pH)
+  return (totalCarbonate * carbonateCharge(pH).charge + Kw / h - h) * 1000
+}
+
+const ratio = (w: WaterProfile) => (w.chloride > 0 ? w.sulfate / w.chloride : null)
+
+/**
+ * Closed-system carbonate titration of sparge water. Total carbonate is
+ * recovered from the measured alkalinity and starting pH; the acid dose is the
+ * alkalinity that has to be removed to reach the target pH. CO2 is assumed to
+ * stay in solution.
+ */
+export function calculateSpargeAcidification(input: SpargeAcidificationInput): SpargeAcidificationResult {
+  const {
+    water,
+    startPH,
+    volumeL,
+    targetPH = CHEMISTRY_CONSTANTS.OPTIMAL_SPARGE_PH_MAX,
+    acid = 'lactic_88'
+  } = input
+
+  if (!parseAcidId(acid)) throw new Error(`Unknown acid: ${acid}`)
+
+  // Measured alkalinity (mmol/L) from bicarbonate and carbonate ppm
+  const alkBefore = (water.bicarbonate || 0) / MOLAR_MASS.HCO3 + 2 * (water.carbonate || 0) / MOLAR_MASS.CO3
+  const hStart = Math.pow(10, -startPH)
+  const totalCarbonate = Math.max(0, (alkBefore / 1000 - Kw / hStart + hStart) / carbonateCharge(startPH).charge)
+
+  const alkAfter = targetPH < startPH ? alkalinityAt(totalCarbonate, targetPH) : alkBefore
+  const mEqPerL = Math.max(0, alkBefore - alkAfter)
+  const mEq = mEqPerL * volumeL
+  const mEqPerMl = acidMEqPerMl(acid, targetPH)
+  const ml = mEqPerMl > 0 ? mEq / mEqPerMl : 0
+
+  const after: WaterProfile = { ...water }
+  const changes: Record<TrackedIon, number> = { bicarbonate: 0, sulfate: 0, chloride: 0, sodium: 0 }
+  if (mEq > 0) {
+    after.bicarbonate = totalCarbonate * carbonateCharge(targetPH).alpha1 * MOLAR_MASS.HCO3 * 1000
+    after.carbonate = 0
+    after.ph = targetPH
+    changes.bicarbonate = after.bicarbonate - water.bicarbonate
+
+    // Strong mineral acids leave their anion behind
+    Object.assign(changes, anionPPMFromAcids({ [acid]: ml }, volumeL))
+    after.sulfate += changes.sulfate
+    after.chloride += changes.chloride
+  }
+  after.alkalinity = alkAfter * 50
+
+  return {
+    acid,
+    ml,
+    mEq,
+    targetPH,
+    alkalinity: { before: alkBefore * 50, after: alkAfter * 50 },
+    water: after,
+    changes,
+    sulfateChlorideRatio: { before: ratio(water), after: ratio(after) }
+  }
+}
@@ -0,0 +1,187 @@
+import { WaterProfile, Volumes, VolumeMode } from '../types'
+import { SALTS, SaltCatalog } from '../data/salts'
+import { CHEMISTRY_CONSTANTS } from '../data/constants'
+import { calculateSaltContribution } from './ppm'
+import { bicarbonateReductionFromAcids, anionPPMFromAcids } from './acids'
+import { SaltAdditions } from './optimize'
+import { boilVolumes, concentrate } from './volumes'
+import { DissolutionOptions, SolubilityIssue, checkSolubility } from './dissolution'
+
+export type Stage = 'mash' | 'sparge' | 'boil'
+
+export interface StageAdditions {
+  salts?: Record<string, number> // grams
+  acids?: Record<string, number> // ml, mash and sparge only
+}
+
+export type StagedAdditions = Partial<Record<Stage, StageAdditions>>
+
+export interface StagedProfiles {
+  mash: WaterProfile
+  sparge: WaterProfile
+  kettle: WaterProfile   // pre-boil: mash and sparge runnings combined by volume, plus boil salts
+  postBoil: WaterProfile // kettle concentrated by boil-off; also what goes into the fermenter
+}
+
+export interface StagedOptions {
+  assumeCarbonateDissolution?: boolean
+  spargePH?: number // pH at which sparge acids are credited, default OPTIMAL_SPARGE_PH_MAX
+  grainKg?: number  // for grain absorption
+  dissolution?: DissolutionOptions // limits how much chalk and lime dissolve per stage
+  catalog?: SaltCatalog            // built-in salts plus any defined by the request
+}
+
+const IONS = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate'] as const
+
+export function isStagedAdditions(additions: unknown): additions is StagedAdditions {
+  if (!additions || typeof additions !== 'object') return false
+  return ['mash', 'sparge', 'boil'].some((stage) => stage in (additions as object))
+}
+
+// Flat { salts, acids } additions are treated as mash additions
+export function toStagedAdditions(additions: StageAdditions | StagedAdditions | undefined): StagedAdditions {
+  if (!additions) return {}
+  return isStagedAdditions(additions) ? additions : { mash: additions as StageAdditions }
+}
+
+// Expresses mash- or total-mode salts as stage additions: 'mash' doses the mash
+// water only, 'total' treats all water alike, i.e. splits the grams by volume
+export function distributeByMode(salts: Record<string, number> | undefined, mode: VolumeMode, volumes: Volumes): StagedAdditions {
+  if (!salts || Object.keys(salts).length === 0) return {}
+  if (mode !== 'total' || volumes.sparge <= 0) return { mash: { salts } }
+  const collected = volumes.mash + volumes.sparge
+  const mash: Record<string, number> = {}
+  const sparge: Record<string, number> = {}
+  for (const [saltId, grams] of Object.entries(salts)) {
+    mash[saltId] = (grams * volumes.mash) / collected
+    sparge[saltId] = (grams * volumes.sparge) / collected
+  }
+  return { mash: { salts: mash }, sparge: { salts: sparge } }
+}
+
+// Salts dissolved in one stage's water (ppm on that stage's volume, boil on the total)
+export function applyStageSalts(
+  water: WaterProfile,
+  salts: Record<string, number> | undefined,
+  volumes: Volumes,
+  stage: Stage,
+  opts: StagedOptions = {}
+): WaterProfile {
+  const result: WaterProfile = { ...water }
+  for (const [saltId, grams] of Object.entries(salts || {})) {
+    const salt = (opts.catalog || SALTS)[saltId]
+    if (!salt || !grams) continue
+    const c = calculateSaltContribution(salt, grams, volumes, 'staged', stage, {
+      assumeCarbonateDissolution: opts.assumeCarbonateDissolution,
+      dissolution: opts.dissolution
+    })
+    IONS.forEach((ion) => { result[ion] += c[ion] })
+  }
+  return result
+}
+
+/**
+ * Mash, sparge, kettle and post-boil profiles for a staged plan. mashWater is
+ * the treated mash water (salts and acids already applied, bicarbonate may be
+ * negative when acid exceeds alkalinity); the excess acid is carried into the
+ * kettle mix before bicarbonate is clamped at zero. Boil salts dissolve in the
+ * pre-boil volume, which grain absorption reduces; boil-off concentrates.
+ */
+export function calculateStagedProfiles(
+  mashWater: WaterProfile,
+  source: WaterProfile,
+  additions: StagedAdditions,
+  volumes: Volumes,
+  opts: StagedOptions = {}
+): StagedProfiles {
+  const sparge = applyStageSalts(source, additions.sparge?.salts, volumes, 'sparge', opts)
+  const spargeAcids = additions.sparge?.acids
+  if (spargeAcids && Object.keys(spargeAcids).length > 0 && volumes.sparge > 0) {
+    sparge.bicarbonate -= bicarbonateReductionFromAcids(spargeAcids, volumes.sparge, opts.spargePH ?? CHEMISTRY_CONSTANTS.OPTIMAL_SPARGE_PH_MAX)
+    const anions = anionPPMFromAcids(spargeAcids, volumes.sparge)
+    sparge.sulfate += anions.sulfate
+    sparge.chloride += anions.chloride
+  }
+
+  const collected = volumes.mash + volumes.sparge
+  const runnings: WaterProfile = { ...source }
+  IONS.forEach((ion) => {
+    runnings[ion] = collected > 0 ? (mashWater[ion] * volumes.mash + sparge[ion] * volumes.sparge) / collected : mashWater[ion]
+  })
+  const boil = boilVolumes(volumes, opts.grainKg)
+  const kettle = applyStageSalts(runnings, additions.boil?.salts, { ...volumes, total: boil.preBoil || volumes.total }, 'boil', opts)
+
+  const clamp = (w: WaterProfile): WaterProfile => ({ ...w, bicarbonate: Math.max(0, w.bicarbonate) })
+  return {
+    mash: clamp(mashWater),
+    sparge: clamp(sparge),
+    kettle: clamp(kettle),
+    postBoil: clamp(concentrate(kettle, boil.concentrationFactor))
+  }
+}
+
+// Stage additions beyond what can dissolve in that stage's water
+export function stagedSolubilityIssues(
+  additions: StagedAdditions,
+  volumes: Volumes,
+  opts: DissolutionOptions = {},
+  catalog: SaltCatalog = SALTS
+): SolubilityIssue[] {
+  return (['mash', 'sparge', 'boil'] as Stage[]).flatMap((stage) => checkSolubility(additions[stage]?.salts, volumes, 'staged', stage, opts, catalog))
+}
+
+// Salts that set mash alkalinity belong in the mash and dissolve poorly in sparge water;
+// calcium salts are split by volume so both mash and sparge water carry calcium.
+// Judged from the ions a salt releases, so custom salts are placed the same way.
+function stageRole(saltId: string, catalog: SaltCatalog): 'alkaline' | 'calcium' | 'flavor' {
+  const ions = catalog[saltId]?.ionsPPMPerGram || {}
+  if (saltId === 'calcium_hydroxide' || ions.bicarbonate || ions.carbonate) return 'alkaline'
+  return ions.calcium ? 'calcium' : 'flavor'
+}
+
+/**
+ * Distributes whole-batch salt additions (optimized against the total volume)
+ * across the stages: alkaline salts to the mash, calcium salts split between
+ * mash and sparge by volume, and flavor-only salts to the boil where they do
+ * not affect mash pH.
+ */
+export function planStagedAdditions(
+  batchSalts: SaltAdditions,
+  volumes: Volumes,
+  catalog: SaltCatalog = SALTS
+): { additions: StagedAdditions; rationale: string[] } {
+  const mash: Record<string, number> = {}
+  const sparge: Record<string, number> = {}
+  const boil: Record<string, number> = {}
+  const rationale: string[] = []
+  const collected = volumes.mash + volumes.sparge
+  const mashShare = collected > 0 ? volumes.mash / collected : 1
+  const round = (g: number) => Math.round(g * 10) / 10
+
+  for (const [saltId, grams] of Object.entries(batchSalts)) {
+    if (!grams) continue
+    const role = stageRole(saltId, catalog)
+    const unit = catalog[saltId]?.unit || 'g'
+    if (role === 'alkaline') {
+      mash[saltId] = grams
+      rationale.push(`${saltId}: all ${grams} ${unit} in the mash, where alkalinity affects pH`)
+    } else if (role === 'calcium' && volumes.sparge > 0) {
+      const inMash = round(grams * mashShare)
+      if (inMash > 0) mash[saltId] = inMash
+      if (round(grams - inMash) > 0) sparge[saltId] = round(grams - inMash)
+      rationale.push(`${saltId}: split ${inMash} ${unit} mash / ${round(grams - inMash)} ${unit} sparge by volume for calcium in both`)
+    } else if (role === 'calcium') {
+      mash[saltId] = grams
+      rationale.push(`${saltId}: all ${grams} ${unit} in the mash (no sparge water)`)
+    } else {
+      boil[saltId] = grams
+      rationale.push(`${saltId}: ${grams} ${unit} in the boil, flavor only and no effect on mash pH`)
+    }
+  }
+
+  const additions: StagedAdditions = {}
+  if (Object.keys(mash).length > 0) additions.mash = { salts: mash }
+  if (Object.keys(sparge).length > 0) additions.sparge = { salts: sparge }
+  if (Object.keys(boil).length > 0) additions.boil = { salts: boil }
+  return { additions, rationale }
+}
@@ -0,0 +1,68 @@
+import { WaterProfile } from '../types'
+import { BeerStyle } from '../data/styles'
+import { IonKey, TargetRanges } from './optimize'
+
+const IONS: IonKey[] = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate']
+
+export interface StyleTargets {
+  target: WaterProfile // band midpoints, used where an optimizer needs a point
+  ranges: TargetRanges
+  ratioRange: { min: number; max: number }
+  mashPH: { min: number; max: number; target: number }
+}
+
+export function styleTargets(style: BeerStyle): StyleTargets {
+  const target = {} as WaterProfile
+  const ranges: TargetRanges = {}
+  for (const ion of IONS) {
+    const [min, max] = style.targetWater[ion]
+    ranges[ion] = [min, max]
+    target[ion] = (min + max) / 2
+  }
+  const [phMin, phMax] = style.targetMashPH
+  return {
+    target,
+    ranges,
+    ratioRange: { min: style.sulfateChlorideRatio[0], max: style.sulfateChlorideRatio[1] },
+    mashPH: { min: phMin, max: phMax, target: Math.round(((phMin + phMax) / 2) * 100) / 100 }
+  }
+}
+
+export interface RangeStatus {
+  value: number
+  min: number
+  max: number
+  status: 'in-range' | 'low' | 'high'
+}
+
+export interface StyleReport {
+  id: string
+  name: string
+  inRange: boolean // every ion, the ratio and (when given) mash pH inside the style
+  ions: Record<IonKey, RangeStatus>
+  sulfateChlorideRatio: RangeStatus
+  mashPH?: RangeStatus
+}
+
+function rangeStatus(value: number, [min, max]: [number, number], digits: number): RangeStatus {
+  const factor = Math.pow(10, digits)
+  const rounded = Math.round(value * factor) / factor
+  return { value: rounded, min, max, status: rounded < min ? 'low' : rounded > max ? 'high' : 'in-range' }
+}
+
+export function styleReport(style: BeerStyle, water: WaterProfile, mashPH?: number): StyleReport {
+  const ions = {} as Record<IonKey, RangeStatus>
+  for (const ion of IONS) ions[ion] = rangeStatus(water[ion] || 0, style.targetWater[ion], 0)
+  const ratio = water.chloride > 0 ? water.sulfate / water.chloride : Infinity
+  const sulfateChlorideRatio = rangeStatus(ratio, style.sulfateChlorideRatio, 2)
+  const ph = typeof mashPH === 'number' ? rangeStatus(mashPH, style.targetMashPH, 2) : undefined
+  const all = [...Object.values(ions), sulfateChlorideRatio, ...(ph ? [ph] : [])]
+  return {
+    id: style.id,
+    name: style.name,
+    inRange: all.every((r) => r.status === 'in-range'),
+    ions,
+    sulfateChlorideRatio,
+    mashPH: ph
+  }
+}
@@ -0,0 +1,149 @@
+import { GrainBillItem } from '../types'
+
+export type UnitSystem = 'metric' | 'imperial'
+export type ColorUnit = 'EBC' | 'SRM' | 'Lovibond'
+export type VolumeUnit = 'L' | 'gal' | 'qt'
+export type WeightUnit = 'kg' | 'g' | 'lb' | 'oz'
+
+// `units` request option: a system, optionally with single units overridden
+export interface UnitOptions {
+  system?: UnitSystem
+  color?: ColorUnit
+  volume?: VolumeUnit
+  weight?: WeightUnit
+}
+
+export interface Units {
+  color: ColorUnit
+  volume: VolumeUnit
+  weight: WeightUnit
+}
+
+// What the calculations work in
+export const METRIC_UNITS: Units = { color: 'EBC', volume: 'L', weight: 'kg' }
+export const IMPERIAL_UNITS: Units = { color: 'SRM', volume: 'gal', weight: 'lb' }
+
+const LITERS_PER: Record<VolumeUnit, number> = { L: 1, gal: 3.785411784, qt: 0.946352946 }
+const KG_PER: Record<WeightUnit, number> = { kg: 1, g: 0.001, lb: 0.45359237, oz: 0.028349523125 }
+
+const pick = <T extends string>(allowed: T[], value: unknown): T | undefined =>
+  typeof value === 'string' ? allowed.find((a) => a.toLowerCase() === value.trim().toLowerCase()) : undefined
+
+export function resolveUnits(option?: UnitSystem | UnitOptions): { units?: Units; errors: string[] } {
+  if (option === undefined || option === null) return { units: METRIC_UNITS, errors: [] }
+  const opts: UnitOptions = typeof option === 'string' ? { system: option } : option
+  if (typeof opts !== 'object') return { errors: ['units must be "metric", "imperial" or { system, color, volume, weight }'] }
+
+  const errors: string[] = []
+  const system = opts.system === undefined ? 'metric' : pick<UnitSystem>(['metric', 'imperial'], opts.system)
+  if (!system) errors.push(`units.system must be metric or imperial, not ${JSON.stringify(opts.system)}`)
+  const base = system === 'imperial' ? IMPERIAL_UNITS : METRIC_UNITS
+  const field = <T extends string>(key: keyof Units, allowed: T[]): T => {
+    if (opts[key] === undefined) return base[key] as T
+    const value = pick(allowed, opts[key])
+    if (!value) errors.push(`units.${key} must be one of ${allowed.join(', ')}`)
+    return value || (base[key] as T)
+  }
+  const units: Units = {
+    color: field<ColorUnit>('color', ['EBC', 'SRM', 'Lovibond']),
+    volume: field<VolumeUnit>('volume', ['L', 'gal', 'qt']),
+    weight: field<WeightUnit>('weight', ['kg', 'g', 'lb', 'oz'])
+  }
+  return errors.length > 0 ? { errors } : { units, errors }
+}
+
+export const isMetric = (u: Units) => u.color === 'EBC' && u.volume === 'L' && u.weight === 'kg'
+
+// SRM = EBC / 1.97, and SRM = 1.3546 °L − 0.76 for malt colors
+export const ebcToSRM = (ebc: number) => ebc / 1.97
+export const srmToEBC = (srm: number) => srm * 1.97
+export const srmToLovibond = (srm: number) => (srm + 0.76) / 1.3546
+export const lovibondToSRM = (lovibond: number) => lovibond * 1.3546 - 0.76
+
+export function toEBC(color: number, unit: ColorUnit): number {
+  if (unit === 'SRM') return srmToEBC(color)
+  return unit === 'Lovibond' ? srmToEBC(lovibondToSRM(color)) : color
+}
+
+export function fromEBC(ebc: number, unit: ColorUnit): number {
+  if (unit === 'SRM') return ebcToSRM(ebc)
+  return unit === 'Lovibond' ? srmToLovibond(ebcToSRM(ebc)) : ebc
+}
+
+export const toLiters = (volume: number, unit: VolumeUnit) => volume * LITERS_PER[unit]
+export const fromLiters = (liters: number, unit: VolumeUnit) => liters / LITERS_PER[unit]
+export const toKg = (weight: number, unit: WeightUnit) => weight * KG_PER[unit]
+export const fromKg = (kg: number, unit: WeightUnit) => kg / KG_PER[unit]
+
+type Quantity = 'volume' | 'volumePerWeight' | 'volumePerHour' | 'weight'
+
+// Fields of Volumes, BatchParameters and BoilVolumes, by what they measure
+const QUANTITIES: Record<string, Quantity> = {
+  total: 'volume',
+  mash: 'volume',
+  sparge: 'volume',
+  boilOff: 'volume',
+  deadSpace: 'volume',
+  batchSize: 'volume',
+  collected: 'volume',
+  absorbed: 'volume',
+  preBoil: 'volume',
+  evaporated: 'volume',
+  postBoil: 'volume',
+  intoFermenter: 'volume',
+  grainAbsorption: 'volumePerWeight',
+  mashThickness: 'volumePerWeight',
+  evaporationRate: 'volumePerHour',
+  grainWeight: 'weight'
+}
+
+// Metric value of one unit of the quantity, e.g. 3.785 L per gal
+function metricPerUnit(quantity: Quantity, u: Units): number {
+  if (quantity === 'weight') return KG_PER[u.weight]
+  if (quantity === 'volumePerWeight') return LITERS_PER[u.volume] / KG_PER[u.weight]
+  return LITERS_PER[u.volume]
+}
+
+function convertFields<T extends object>(values: T, u: Units, toMetric: boolean): T {
+  const out = { ...values } as Record<string, unknown>
+  for (const [key, value] of Object.entries(values)) {
+    const quantity = QUANTITIES[key]
+    if (!quantity || typeof value !== 'number') continue
+    const factor = metricPerUnit(quantity, u)
+    if (factor === 1) continue
+    out[key] = toMetric ? value * factor : Math.round((value / factor) * 100) / 100
+  }
+  return out as T
+}
+
+// Volumes, batch parameters or boil volumes in the request's units → liters and kg
+export const toMetric = <T extends object>(values: T, u: Units): T => convertFields(values, u, true)
+// ...and back, rounded to 0.01 of the unit
+export const fromMetric = <T extends object>(values: T, u: Units): T => convertFields(values, u, false)
+
+// Single liters or kg for a response, in the request's unit (unchanged when metric)
+export const outputVolume = (liters: number, u: Units) => fromMetric({ total: liters }, u).total
+export const outputWeight = (kg: number, u: Units) => fromMetric({ grainWeight: kg }, u).grainWeight
+
+export function grainToMetric(grain: GrainBillItem, u: Units): GrainBillItem {
+  return {
+    ...grain,
+    weight: typeof grain.weight === 'number' ? toKg(grain.weight, u.weight) : grain.weight,
+    color: typeof grain.color === 'number' ? toEBC(grain.color, u.color) : grain.color
+  }
+}
+
+/**
+ * Converts the request fields that carry volumes, weights or colors
+ * (volumes, batch, grainBill) to liters, kg and EBC, so the handlers and
+ * calculations only ever see metric values.
+ */
+export function normalizeRequest<T extends Record<string, any>>(body: T, u: Units): T {
+  if (isMetric(u) || !body || typeof body !== 'object') return body
+  return {
+    ...body,
+    ...(body.volumes && typeof body.volumes === 'object' ? { volumes: toMetric(body.volumes, u) } : {}),
+    ...(body.batch && typeof body.batch === 'object' ? { batch: toMetric(body.batch, u) } : {}),
+    ...(Array.isArray(body.grainBill) ? { grainBill: body.grainBill.map((g: GrainBillItem) => grainToMetric(g, u)) } : {})
+  }
+}
@@ -0,0 +1,134 @@
+import { WaterProfile, Volumes, VolumeMode } from '../types'
+
+export interface BoilVolumes {
+  collected: number     // mash + sparge water
+  absorbed: number      // retained by the spent grain
+  preBoil: number
+  evaporated: number
+  postBoil: number
+  intoFermenter: number // post-boil minus kettle dead space
+  concentrationFactor: number // post-boil ppm / pre-boil ppm
+}
+
+export function boilVolumes(volumes: Volumes, grainKg = 0): BoilVolumes {
+  const collected = volumes.mash + volumes.sparge
+  const absorbed = Math.min(collected, Math.max(0, (volumes.grainAbsorption ?? 0) * grainKg))
+  const preBoil = collected - absorbed
+  const evaporated = Math.min(preBoil, Math.max(0, volumes.boilOff ?? 0))
+  const postBoil = preBoil - evaporated
+  const intoFermenter = Math.max(0, postBoil - Math.max(0, volumes.deadSpace ?? 0))
+  return {
+    collected,
+    absorbed,
+    preBoil,
+    evaporated,
+    postBoil,
+    intoFermenter,
+    concentrationFactor: postBoil > 0 ? preBoil / postBoil : 1
+  }
+}
+
+// Liters a salt dissolves in for the volume mode (staged: the stage's own water, boil on the total)
+export function effectiveVolume(
+  volumes: Partial<Volumes> & { total?: number; mash?: number; sparge?: number },
+  mode: VolumeMode = 'mash',
+  location?: 'mash' | 'sparge' | 'boil'
+): number {
+  switch (mode) {
+    case 'mash':
+      return volumes.mash ?? volumes.total ?? 0
+    case 'staged':
+      if (location === 'mash') return volumes.mash ?? 0
+      if (location === 'sparge') return volumes.sparge ?? 0
+      return volumes.total ?? 0
+    default:
+      return volumes.total ?? 0
+  }
+}
+
+// Evaporation removes water only, so every ion concentrates by the same factor.
+// Absorption and dead space take wort away at its current concentration.
+export function concentrate(water: WaterProfile, factor: number): WaterProfile {
+  return {
+    ...water,
+    calcium: water.calcium * factor,
+    magnesium: water.magnesium * factor,
+    sodium: water.sodium * factor,
+    sulfate: water.sulfate * factor,
+    chloride: water.chloride * factor,
+    bicarbonate: water.bicarbonate * factor,
+    carbonate: water.carbonate !== undefined ? water.carbonate * factor : undefined
+  }
+}
+
+export interface BatchParameters {
+  batchSize: number         // L into the fermenter
+  grainWeight: number       // kg
+  mashThickness?: number    // L/kg, default 3
+  grainAbsorption?: number  // L/kg, default 1.0 (0.6 for squeezed BIAB bags is typical)
+  boilTime?: number         // minutes, default 60
+  evaporationRate?: number  // L/h, default 4
+  deadSpace?: number        // L left in the kettle, default 0
+  biab?: boolean            // no sparge: all water goes into the mash
+}
+
+export function validateBatchParameters(batch: Partial<BatchParameters>): string[] {
+  const errors: string[] = []
+  if (!(typeof batch.batchSize === 'number' && batch.batchSize > 0)) errors.push('batchSize must be greater than 0')
+  if (!(typeof batch.grainWeight === 'number' && batch.grainWeight > 0)) errors.push('grainWeight must be greater than 0')
+  for (const key of ['mashThickness', 'grainAbsorption', 'boilTime', 'evaporationRate', 'deadSpace'] as const) {
+    const value = batch[key]
+    if (value !== undefined && !(typeof value === 'number' && value >= 0)) errors.push(`${key} cannot be negative`)
+  }
+  if (batch.mashThickness === 0) errors.push('mashThickness must be greater than 0')
+  return errors
+}
+
+/**
+ * Works back from the fermenter: post-boil = batch + dead space, pre-boil adds
+ * boil-off, and total water adds what the grain absorbs. The mash gets
+ * thickness × grain (capped at the total) and the rest is sparge; BIAB puts
+ * everything in the mash.
+ */
+export function calculateRecipeVolumes(batch: BatchParameters): Volumes {
+  const {
+    batchSize,
+    grainWeight,
+    mashThickness = 3,
+    grainAbsorption = 1.0,
+    boilTime = 60,
+    evaporationRate = 4,
+    deadSpace = 0,
+    biab = false
+  } = batch
+  const round = (l: number) => Math.round(l * 100) / 100
+
+  const boilOff = evaporationRate * (boilTime / 60)
+  const postBoil = batchSize + deadSpace
+  const preBoil = postBoil + boilOff
+  const total = preBoil + grainAbsorption * grainWeight
+  const mash = biab ? total : Math.min(total, mashThickness * grainWeight)
+
+  return {
+    total: round(total),
+    mash: round(mash),
+    sparge: round(round(total) - round(mash)),
+    grainAbsorption,
+    boilOff: round(boilOff),
+    deadSpace
+  }
+}
+
+// Explicit volumes win; otherwise they are derived from batch parameters,
+// with the grain weight defaulting to the grain bill
+export function resolveVolumes(
+  volumes: Volumes | undefined,
+  batch: Partial<BatchParameters> | undefined,
+  grainBillKg?: number
+): { volumes?: Volumes; errors: string[] } {
+  if (volumes) return { volumes, errors: [] }
+  if (!batch) return { errors: ['volumes or batch parameters are required'] }
+  const params = { ...batch, grainWeight: batch.grainWeight ?? grainBillKg }
+  const errors = validateBatchParameters(params)
+  return errors.length > 0 ? { errors } : { volumes: calculateRecipeVolumes(params as BatchParameters), errors }
+}
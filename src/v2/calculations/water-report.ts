@@ -0,0 +1,295 @@
+import { WaterProfile } from '../types'
+
+// Lab reports and municipal analyses give values per line with mixed units:
+// plain mg/L, mEq/L, mmol/L, hardness and alkalinity as CaCO3 (or in °dH),
+// sulfate as sulfur. Everything is normalized to ppm of the ion itself.
+
+export interface ReportValue {
+  value: number | string
+  unit?: string
+}
+
+// A number (mg/L, or mg/L as CaCO3 for hardness and alkalinity), a string with the unit ("12 mg/L as S") or { value, unit }
+export type ReportEntry = number | string | ReportValue
+export type LabReport = Record<string, ReportEntry>
+
+export interface ImportConversion {
+  field: string    // WaterProfile field (or hardness/alkalinity) the value was used for
+  source?: string  // report line it came from
+  from: string     // unit as reported, or 'derived' / 'missing'
+  factor?: number  // multiplier to ppm of the ion
+  inferred: boolean // true when the unit or value had to be assumed
+  note: string
+}
+
+export interface WaterImportResult {
+  water: WaterProfile
+  conversions: ImportConversion[]
+  unrecognized: string[] // report lines not used (nitrate, iron, ...)
+  errors: string[]
+}
+
+type Ion = 'calcium' | 'magnesium' | 'sodium' | 'sulfate' | 'chloride' | 'bicarbonate' | 'carbonate'
+type AsCaCO3 = 'totalHardness' | 'calciumHardness' | 'magnesiumHardness' | 'alkalinity'
+type ReportField = Ion | AsCaCO3 | 'ph'
+
+const IONS: Ion[] = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate', 'carbonate']
+const REQUIRED: Ion[] = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate']
+
+// g/mol and charge
+const SPECIES: Record<Ion, { molar: number; charge: number }> = {
+  calcium: { molar: 40.078, charge: 2 },
+  magnesium: { molar: 24.305, charge: 2 },
+  sodium: { molar: 22.99, charge: 1 },
+  sulfate: { molar: 96.06, charge: 2 },
+  chloride: { molar: 35.453, charge: 1 },
+  bicarbonate: { molar: 61.017, charge: 1 },
+  carbonate: { molar: 60.009, charge: 2 }
+}
+const CACO3 = 100.087
+const SULFUR = 32.06
+const DH_AS_CACO3 = 17.848 // 1 °dH = 10 mg/L CaO
+
+// Ordered: the more specific names come first ("calcium hardness" before "calcium",
+// "bicarbonate" before "carbonate"). Names are lowercased with punctuation removed;
+// bare element symbols only match on their own so "Nitrate, mg/L" is not magnesium.
+const FIELD_NAMES: [ReportField, RegExp][] = [
+  // Carbonate hardness (KH) is alkalinity, not a share of the total hardness
+  ['alkalinity', /\bcarbonate hardness\b|\bkarbonathårdhet\b|\bd?kh\b/],
+  ['calciumHardness', /\b(calcium|ca) hardness\b|\bkalciumhårdhet\b/],
+  ['magnesiumHardness', /\b(magnesium|mg) hardness\b|\bmagnesiumhårdhet\b/],
+  ['totalHardness', /\bhardness\b|\bhårdhet\b|\btotalhårdhet\b|\bdgh\b/],
+  // Alkalinity reported as HCO3 (common in Swedish reports) is bicarbonate
+  ['bicarbonate', /\bbicarbonate\b|\bhydrogen carbonate\b|\bhco3\b|\bvätekarbonat\b/],
+  ['alkalinity', /\balkalinity\b|\balkalinitet\b/],
+  ['carbonate', /\bcarbonate\b|\bco3\b|\bkarbonat\b/],
+  ['sulfate', /\bsul(f|ph)ate\b|\bso4\b|\bsulfat\b/],
+  ['chloride', /\bchloride\b|^cl$|\bklorid\b/],
+  ['sodium', /\bsodium\b|^na$|\bnatrium\b/],
+  ['calcium', /\bcalcium\b|^ca2?$|\bkalcium\b/],
+  ['magnesium', /\bmagnesium\b|^mg2?$/],
+  ['ph', /^ph\b|\bph value\b|\bph värde\b/]
+]
+
+const round = (x: number) => Math.round(x * 10) / 10
+const roundFactor = (f: number) => Math.round(f * 10000) / 10000
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9åäöü]+/g, ' ').trim()
+}
+
+function matchField(name: string): ReportField | undefined {
+  const normalized = normalizeName(name)
+  return FIELD_NAMES.find(([, pattern]) => pattern.test(normalized))?.[0]
+}
+
+interface ParsedUnit {
+  base: 'mg/L' | 'meq/L' | 'mmol/L' | '°dH'
+  asCaCO3: boolean
+  asSulfur: boolean
+  given: boolean // false when no unit was reported
+}
+
+// "Sulfate (mg/L as S)", "Hårdhet (°dH)": a unit in parentheses when no unit column is given
+function unitFromName(name: string): string | undefined {
+  const inParens = name.match(/\(([^)]*)\)/)?.[1]
+  return inParens && parseUnit(inParens, '')?.given ? inParens : undefined
+}
+
+function parseUnit(unit: string | undefined, name: string): ParsedUnit | undefined {
+  const u = (unit || '').toLowerCase().replace(/\s+/g, '')
+  const n = normalizeName(name)
+  const asCaCO3 = u.includes('caco3') || /\bcaco3\b/.test(n)
+  const asSulfur = /as-?s$|so4-?s|sulfur|sulphur/.test(u) || /\bsul(f|ph)ur\b|\bso4 s\b|\bas s\b/.test(n)
+  const given = u.length > 0
+  const stripped = u.replace(/\(?as.*$/, '').replace(/caco3|so4-?s/g, '')
+
+  if (!given || /^(mg\/l|mg\/dm3|ppm|mg)?$/.test(stripped)) return { base: 'mg/L', asCaCO3, asSulfur, given }
+  if (/^m(e|eq|val)\/l$|^meq\/l$|^mekv\/l$/.test(stripped)) return { base: 'meq/L', asCaCO3, asSulfur, given }
+  if (/^mmol\/l$|^mm$/.test(stripped)) return { base: 'mmol/L', asCaCO3, asSulfur, given }
+  if (/^°?d(h|gh|kh)?$|^°dh$|^dh$/.test(stripped)) return { base: '°dH', asCaCO3, asSulfur, given }
+  return undefined
+}
+
+function parseEntry(entry: ReportEntry): { value?: number; unit?: string; belowDetection: boolean; numeric?: boolean } {
+  if (typeof entry === 'number') return { value: entry, belowDetection: false, numeric: true }
+  const raw = typeof entry === 'string' ? entry : String(entry?.value ?? '')
+  const match = raw.match(/^\s*(<)?\s*(-?\d+(?:[.,]\d+)?)\s*(.*)$/)
+  if (!match) return { belowDetection: false }
+  const unit = typeof entry === 'object' && entry.unit !== undefined ? entry.unit : match[3]
+  return { value: parseFloat(match[2].replace(',', '.')), unit: unit || undefined, belowDetection: !!match[1] }
+}
+
+// Factor from the reported unit to ppm of the ion, or to ppm as CaCO3 for hardness/alkalinity
+function conversionFactor(field: ReportField, unit: ParsedUnit): number | undefined {
+  if (field === 'ph') return 1
+  if (field in SPECIES) {
+    const { molar, charge } = SPECIES[field as Ion]
+    if (unit.base === 'meq/L') return molar / charge
+    if (unit.base === 'mmol/L') return molar
+    if (unit.base === '°dH') return undefined
+    // Equal equivalents: CaCO3 carries two charges per mole
+    if (unit.asCaCO3) return (2 * molar) / (charge * CACO3)
+    if (unit.asSulfur) return field === 'sulfate' ? SPECIES.sulfate.molar / SULFUR : undefined
+    return 1
+  }
+  if (unit.base === 'meq/L') return CACO3 / 2
+  // mmol/L of alkalinity is by convention mmol HCO3-, i.e. mEq
+  if (unit.base === 'mmol/L') return field === 'alkalinity' ? CACO3 / 2 : CACO3
+  if (unit.base === '°dH') return DH_AS_CACO3
+  return 1
+}
+
+/**
+ * Normalizes a lab report into a WaterProfile. Calcium and magnesium missing
+ * from the report are recovered from total/calcium/magnesium hardness, and
+ * bicarbonate from total alkalinity (assuming pH below 8.3, so carbonate is
+ * reported separately). Every unit conversion is listed; the ones that rest
+ * on an assumption (no unit given, derived values, ions not reported) are
+ * flagged as inferred.
+ */
+export function importWaterReport(report: LabReport): WaterImportResult {
+  const values: Partial<Record<ReportField, number>> = {}
+  const conversions: ImportConversion[] = []
+  const unrecognized: string[] = []
+  const errors: string[] = []
+
+  for (const [name, entry] of Object.entries(report || {})) {
+    const field = matchField(name)
+    if (!field) {
+      unrecognized.push(name)
+      continue
+    }
+    const { value, unit, belowDetection, numeric } = parseEntry(entry)
+    const unitText = unit ?? unitFromName(name)
+    if (value === undefined || !Number.isFinite(value) || value < 0) {
+      errors.push(`${name}: could not read a non-negative number from ${JSON.stringify(entry)}`)
+      continue
+    }
+    if (values[field] !== undefined) {
+      errors.push(`${name}: ${field} is reported more than once`)
+      continue
+    }
+    if (field === 'ph') {
+      values.ph = value
+      continue
+    }
+
+    const parsed = parseUnit(unitText, name)
+    const factor = parsed && conversionFactor(field, parsed)
+    if (!parsed || factor === undefined) {
+      errors.push(`${name}: unsupported unit ${JSON.stringify(unitText ?? '')} for ${field}`)
+      continue
+    }
+
+    const isCaCO3Field = !(field in SPECIES)
+    const from = unitText || 'no unit'
+
+    if (belowDetection) {
+      values[field] = 0
+      conversions.push({ field, source: name, from, inferred: true, note: `below detection limit (<${value}); assumed 0` })
+      continue
+    }
+
+    values[field] = value * factor
+    // Plain numbers for ions are ppm, as in a WaterProfile
+    if (!parsed.given && numeric && !isCaCO3Field) continue
+    if (!parsed.given) {
+      const assumed = isCaCO3Field ? 'mg/L as CaCO3' : 'mg/L'
+      conversions.push({ field, source: name, from, factor: roundFactor(factor), inferred: true, note: `no unit given; assumed ${assumed}` })
+    } else if (isCaCO3Field && parsed.base === 'mg/L' && !parsed.asCaCO3) {
+      conversions.push({ field, source: name, from, factor: roundFactor(factor), inferred: true, note: `${unitText} assumed to be expressed as CaCO3` })
+    } else if (factor !== 1) {
+      const target = isCaCO3Field ? 'mg/L as CaCO3' : `mg/L ${field}`
+      conversions.push({
+        field,
+        source: name,
+        from,
+        factor: roundFactor(factor),
+        inferred: field === 'alkalinity' && parsed.base === 'mmol/L',
+        note: `converted to ${target}`
+      })
+    }
+  }
+
+  const derive = (field: Ion, value: number, note: string) => {
+    values[field] = Math.max(0, value)
+    conversions.push({ field, from: 'derived', inferred: true, note })
+  }
+  const caPerCaCO3 = SPECIES.calcium.molar / CACO3
+  const mgPerCaCO3 = SPECIES.magnesium.molar / CACO3
+
+  if (values.calcium === undefined && values.calciumHardness !== undefined) {
+    values.calcium = values.calciumHardness * caPerCaCO3
+    conversions.push({ field: 'calcium', from: 'calcium hardness as CaCO3', factor: roundFactor(caPerCaCO3), inferred: false, note: 'converted calcium hardness to mg/L calcium' })
+  }
+  if (values.magnesium === undefined && values.magnesiumHardness !== undefined) {
+    values.magnesium = values.magnesiumHardness * mgPerCaCO3
+    conversions.push({ field: 'magnesium', from: 'magnesium hardness as CaCO3', factor: roundFactor(mgPerCaCO3), inferred: false, note: 'converted magnesium hardness to mg/L magnesium' })
+  }
+  const total = values.totalHardness
+  if (total !== undefined) {
+    if (values.calcium !== undefined && values.magnesium === undefined) {
+      derive('magnesium', (total - values.calcium / caPerCaCO3) * mgPerCaCO3, 'magnesium = total hardness minus calcium hardness')
+    } else if (values.magnesium !== undefined && values.calcium === undefined) {
+      derive('calcium', (total - values.magnesium / mgPerCaCO3) * caPerCaCO3, 'calcium = total hardness minus magnesium hardness')
+    } else if (values.calcium === undefined && values.magnesium === undefined) {
+      derive('calcium', total * caPerCaCO3, 'total hardness only; assumed to be all calcium')
+      derive('magnesium', 0, 'total hardness only; magnesium assumed 0')
+    }
+  }
+
+  if (values.bicarbonate === undefined && values.alkalinity !== undefined) {
+    const carbonateAsCaCO3 = ((values.carbonate ?? 0) * CACO3) / SPECIES.carbonate.molar
+    const bicarbonatePerCaCO3 = (2 * SPECIES.bicarbonate.molar) / CACO3
+    derive('bicarbonate', (values.alkalinity - carbonateAsCaCO3) * bicarbonatePerCaCO3, 'bicarbonate from total alkalinity, assuming pH below 8.3')
+  }
+
+  const water = {} as WaterProfile
+  for (const ion of IONS) {
+    if (values[ion] !== undefined) {
+      water[ion] = round(values[ion]!)
+    } else if ((REQUIRED as Ion[]).includes(ion)) {
+      water[ion] = 0
+      conversions.push({ field: ion, from: 'missing', inferred: true, note: 'not reported; assumed 0' })
+    }
+  }
+  if (values.alkalinity !== undefined) water.alkalinity = round(values.alkalinity)
+  if (values.ph !== undefined) water.ph = values.ph
+
+  if (errors.length === 0 && Object.keys(values).length === 0) errors.push('No recognizable water report values')
+  return { water, conversions, unrecognized, errors }
+}
+
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted
+    else if (ch === delimiter && !quoted) {
+      cells.push(cell.trim())
+      cell = ''
+    } else cell += ch
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+/**
+ * Reads "name,value[,unit]" rows into a LabReport. Semicolon- and
+ * tab-separated files (with decimal commas) are accepted; a header row and
+ * blank lines are skipped.
+ */
+export function parseWaterReportCSV(csv: string): LabReport {
+  const report: LabReport = {}
+  const lines = csv.split(/\r?\n/).filter((l) => l.trim().length > 0)
+  for (const [i, line] of lines.entries()) {
+    const delimiter = line.includes('\t') ? '\t' : line.includes(';') ? ';' : ','
+    const [name, value = '', unit = ''] = splitCSVLine(line, delimiter)
+    if (i === 0 && !/\d/.test(value)) continue
+    if (!name) continue
+    report[name] = { value, unit: unit || undefined }
+  }
+  return report
+}
@@ -2,9 +2,11 @@ export interface AcidDefinition {
   name: string
   formula: string
   molarMass: number
-  density: number
+  density: number // g/ml at the first standard concentration
   pKa: number[]
   standardConcentrations: number[]
+  anion?: 'sulfate' | 'chloride' // counter-ion left behind in the water profile
+  maxConcentration?: number // % w/w; acids sold as solids are dosed as a solution up to their solubility
 }
 
 export const ACIDS: Record<string, AcidDefinition> = {
@@ -30,7 +32,8 @@ export const ACIDS: Record<string, AcidDefinition> = {
     molarMass: 98.08,
     density: 1.84,
     pKa: [-3, 1.99],
-    standardConcentrations: [98, 10]
+    standardConcentrations: [98, 10],
+    anion: 'sulfate'
   },
   hydrochloric: {
     name: 'Hydrochloric Acid',
@@ -38,7 +41,17 @@ export const ACIDS: Record<string, AcidDefinition> = {
     molarMass: 36.46,
     density: 1.18,
     pKa: [-6.3],
-    standardConcentrations: [37, 10]
+    standardConcentrations: [37, 10],
+    anion: 'chloride'
+  },
+  citric: {
+    name: 'Citric Acid',
+    formula: 'C6H8O7',
+    molarMass: 192.12,
+    density: 1.22, // 50% w/w solution; the crystals are dissolved before dosing
+    pKa: [3.13, 4.76, 6.40],
+    standardConcentrations: [50, 10],
+    maxConcentration: 59
   }
 }
 
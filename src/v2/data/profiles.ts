@@ -0,0 +1,16 @@
+// Named water and style profiles, as GET /api/profiles serves them
+import waterProfiles from './water-profiles.json'
+import styleProfiles from './style-profiles.json'
+import type { WaterProfileEntry, StyleProfileEntry } from '../types/api'
+
+export const WATER_PROFILES: Record<string, WaterProfileEntry> = waterProfiles
+export const STYLE_PROFILES: Record<string, StyleProfileEntry> = styleProfiles
+
+// Own keys only, so 'constructor' and friends are not profiles
+const lookup = <T>(profiles: Record<string, T>, id: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(profiles, id) ? profiles[id] : undefined
+
+export const getWaterProfile = (id: string) => lookup(WATER_PROFILES, id)
+export const getStyleProfile = (id: string) => lookup(STYLE_PROFILES, id)
+export const listWaterProfiles = () => Object.keys(WATER_PROFILES)
+export const listStyleProfiles = () => Object.keys(STYLE_PROFILES)
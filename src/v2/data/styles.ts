@@ -0,0 +1,28 @@
+// Style ranges (BJCP-like) shared with the legacy profiles
+import beerStyles from '../../profiles/styles/beer-styles.json'
+
+export type Range = [number, number] // [min, max]
+
+export interface BeerStyle {
+  id: string
+  name: string
+  category: string
+  targetWater: {
+    calcium: Range
+    magnesium: Range
+    sodium: Range
+    sulfate: Range
+    chloride: Range
+    bicarbonate: Range
+  }
+  sulfateChlorideRatio: Range
+  targetMashPH: Range
+  notes?: Record<string, string>
+}
+
+export const BEER_STYLES = beerStyles as unknown as Record<string, BeerStyle>
+
+// Accepts both 'american-ipa' and the style-profiles.json spelling 'american_ipa'
+export function getBeerStyle(id: string): BeerStyle | undefined {
+  return BEER_STYLES[id] || BEER_STYLES[id.replace(/_/g, '-')]
+}
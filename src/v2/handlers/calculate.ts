@@ -0,0 +1,191 @@
+import { resolveSaltCatalog } from '../data/salts'
+import type { VolumeMode, GrainBillItem } from '../types'
+import type { CalculateRequest, CalculateManualResponse, CalculateAutoResponse } from '../types/api'
+import { ACIDULATED_MALT_LACTIC_PERCENT } from '../calculations/acids'
+import { isStagedAdditions, planStagedAdditions, StageAdditions } from '../calculations/staged'
+import { DissolutionOptions } from '../calculations/dissolution'
+import { resolveVolumes } from '../calculations/volumes'
+import { describeIonBalance } from '../calculations/ion-balance'
+import { resolveUnits, normalizeRequest, fromMetric, outputVolume, outputWeight, isMetric, Units } from '../calculations/units'
+import { getBeerStyle } from '../data/styles'
+import { validateSchema } from '../schemas/json-schema'
+import { CALCULATE_REQUEST_SCHEMA, additionErrors, saltIdErrors } from '../schemas/requests'
+import { styleTargets, styleReport, StyleTargets } from '../calculations/styles'
+import { optimizeWaterSimple, optimizeWaterBalanced, optimizeWaterExact, optimizeWaterNNLS, describeConstraintViolations, NNLSResult, ratioBand } from '../calculations/optimize'
+import { runPipeline, AcidRecommendation } from '../calculations/pipeline'
+import { ok, fail, Outcome } from './outcome'
+
+// Liquid acid and acidulated malt alternatives for the same mEq demand.
+// Either source lowers the mash alkalinity by the same amount.
+function suggestAcidSources(
+  rec: AcidRecommendation,
+  grainBill: GrainBillItem[],
+  lacticAcidPercent: number,
+  units: Units
+) {
+  const gristKg = grainBill.reduce((s, g) => s + g.weight, 0)
+  return {
+    suggestedAcids: { lactic_88: Math.round(rec.lactic_88 * 10) / 10 },
+    acidOptions: {
+      lactic_88: Math.round(rec.lactic_88 * 10) / 10,
+      phosphoric_85: Math.round(rec.phosphoric_85 * 10) / 10
+    },
+    suggestedAcidulatedMalt: {
+      kg: Math.round(rec.acidulatedMaltKg * 1000) / 1000,
+      lacticAcidPercent,
+      gristPercent: Math.round(rec.acidulatedMaltKg / (gristKg + rec.acidulatedMaltKg) * 1000) / 10,
+      ...(isMetric(units) ? {} : { weight: outputWeight(rec.acidulatedMaltKg, units), unit: units.weight })
+    }
+  }
+}
+
+/**
+ * POST /api/calculate without the transport: manual mode reports the water
+ * and mash pH for the given additions, auto mode optimizes salts for a target
+ * water or style. Invalid input comes back as a 400 or 404 outcome.
+ */
+export function handleCalculate(body: unknown): Outcome<CalculateManualResponse | CalculateAutoResponse> {
+  const invalid = validateSchema(CALCULATE_REQUEST_SCHEMA, body)
+  if (invalid.length > 0) return fail(400, { error: 'Invalid request', errors: invalid })
+  const request = body as CalculateRequest
+  // Volumes, grain weights and colors arrive in the request's units and are worked in liters, kg and EBC
+  const { units, errors: unitErrors } = resolveUnits(request.units)
+  if (!units) return fail(400, { error: 'Invalid units', errors: unitErrors })
+  const {
+    sourceWater,
+    targetWater,
+    grainBill,
+    volumes: requestVolumes,
+    batch,
+    mode = 'manual',
+    volumeMode = 'mash',
+    additions,
+    targetMashPH,
+    assumeCarbonateDissolution,
+    acidSource = 'liquid',
+    acidulatedMaltLacticPercent = ACIDULATED_MALT_LACTIC_PERCENT,
+    allowedSalts,
+    maxSalts,
+    maxSaltAmount,
+    tolerancePPM,
+    constraints,
+    weights,
+    flavor,
+    ratioTarget,
+    ratioWeight,
+    style,
+    dissolution,
+    customSalts,
+    solutions
+  } = normalizeRequest(request, units)
+
+  const grainKg = grainBill.reduce((s, g) => s + g.weight, 0)
+  const resolved = resolveVolumes(requestVolumes, batch, grainKg)
+  if (!resolved.volumes) return fail(400, { error: 'Invalid batch parameters', errors: resolved.errors })
+  const volumes = resolved.volumes
+  const { catalog, errors: saltErrors } = resolveSaltCatalog(customSalts, solutions)
+  if (!catalog) return fail(400, { error: 'Invalid custom salts or solutions', errors: saltErrors })
+  const unknownIds = [...additionErrors(additions, catalog, 'additions'), ...saltIdErrors(allowedSalts, catalog, 'allowedSalts')]
+  if (unknownIds.length > 0) return fail(400, { error: 'Invalid request', errors: unknownIds })
+  // Chalk and lime only contribute what can dissolve; the mash is taken to sit at the target pH
+  const dissolve: DissolutionOptions = { ...dissolution, mashPH: dissolution?.mashPH ?? targetMashPH }
+  const saltOptions = { assumeCarbonateDissolution, dissolution: dissolve, catalog }
+
+  const phModel = request.phModel || 'simple'
+  const pipeline = { sourceWater, grainBill, volumes, volumeMode, phModel, saltOptions, targetMashPH, lacticAcidPercent: acidulatedMaltLacticPercent }
+
+  if (mode === 'manual') {
+    if (!(volumeMode === 'staged' || isStagedAdditions(additions)) && !(additions as StageAdditions | undefined)?.salts) {
+      return fail(400, { error: 'Invalid request', errors: [{ path: 'additions.salts', code: 'required', message: 'additions.salts is required in manual mode' }] })
+    }
+    // Staged: salts and acids per location, achieved is the mash water. Acids are credited
+    // at the target pH; without acids, acid to reach targetMashPH is suggested.
+    const result = runPipeline({ ...pipeline, additions, acidPH: targetMashPH })
+    const balanceWarning = describeIonBalance(result.ionBalance)
+    const warnings = [...(balanceWarning ? [balanceWarning] : []), ...result.solubility.map((issue) => issue.message)]
+    const suggestion = result.acidRecommendation && suggestAcidSources(result.acidRecommendation, grainBill, acidulatedMaltLacticPercent, units)
+
+    return ok({
+      achieved: result.final,
+      profiles: result.profiles,
+      boilVolumes: fromMetric(result.boilVolumes, units),
+      volumes: requestVolumes ? undefined : fromMetric(volumes, units), // derived from batch
+      predictions: { mashPH: result.mashPH, beforeAcidPH: result.beforeAcidPH, residualAlkalinity: result.metrics.final.residualAlkalinity, sulfateChlorideRatio: result.metrics.final.sulfateChlorideRatio },
+      metrics: result.metrics,
+      equilibrium: result.equilibrium,
+      grainMatches: result.grainMatches,
+      suggestedAcids: acidSource === 'liquid' ? suggestion?.suggestedAcids : undefined,
+      suggestedAcidulatedMalt: suggestion?.suggestedAcidulatedMalt,
+      acidOptions: suggestion?.acidOptions,
+      acidSource: suggestion ? acidSource : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      volumeMode,
+      volumeUsed: volumeMode === 'mash' ? outputVolume(volumes.mash, units) : volumeMode === 'total' ? outputVolume(volumes.total, units) : undefined,
+      units: request.units ? units : undefined
+    } satisfies CalculateManualResponse)
+  }
+
+  // Auto mode
+  if (!targetWater && !style) {
+    return fail(400, { error: 'Invalid request', errors: [{ path: 'body', code: 'required', message: 'one of targetWater, style is required in auto mode' }] })
+  }
+  const beerStyle = style ? getBeerStyle(style) : undefined
+  if (style && !beerStyle) return fail(404, { error: 'Not found', type: 'style', id: style })
+  const styleGoal: StyleTargets | undefined = beerStyle ? styleTargets(beerStyle) : undefined
+  const target = targetWater || styleGoal!.target
+
+  const optimization = request.optimization || 'simple'
+  // A style contributes its ion bands and SO4:Cl band unless the caller set a ratio goal
+  const ratioRange = !flavor && ratioTarget === undefined ? styleGoal?.ratioRange : undefined
+  const limits = { allowedSalts, maxSalts, maxSaltAmount, constraints, flavor, ratioTarget, ratioRange, ratioWeight, catalog }
+  const ranged = { ...limits, targetRanges: styleGoal?.ranges }
+  // Staged: optimize the whole batch against the kettle, then distribute the salts per stage
+  const optimizeMode: VolumeMode = volumeMode === 'staged' ? 'total' : volumeMode
+  const nnls: NNLSResult | undefined = optimization === 'nnls'
+    ? optimizeWaterNNLS(sourceWater, target, volumes, optimizeMode, { ...ranged, weights, assumeCarbonateDissolution, dissolution: dissolve })
+    : undefined
+  const salts = nnls ? nnls.additions : optimization === 'balanced'
+    ? optimizeWaterBalanced(sourceWater, target, volumes, optimizeMode, { ...ranged, tolerancePPM, assumeCarbonateDissolution, dissolution: dissolve })
+    : optimization === 'exact'
+      ? optimizeWaterExact(sourceWater, target, volumes, optimizeMode, { ...ranged, tolerancePPM, assumeCarbonateDissolution, dissolution: dissolve })
+      : optimizeWaterSimple(sourceWater, target, volumes, optimizeMode, { ...ranged, dissolution: dissolve })
+  const plan = volumeMode === 'staged' ? planStagedAdditions(salts, volumes, catalog) : undefined
+  // Optional auto acid suggestion if user supplies targetMashPH; a style aims for the
+  // middle of its mash pH window once the prediction is above the window
+  const result = runPipeline({ ...pipeline, additions: plan ? plan.additions : { salts }, mashPHWindow: styleGoal?.mashPH })
+  const balanceWarning = describeIonBalance(result.ionBalance)
+  const suggestion = result.acidRecommendation && suggestAcidSources(result.acidRecommendation, grainBill, acidulatedMaltLacticPercent, units)
+  const finalWater = result.final
+  // Staged plans are judged on the kettle water, since that is what the optimizer targeted
+  const judged = plan ? result.profiles.kettle : finalWater
+  // Caps the source water already breaks cannot be fixed by adding salts
+  const warnings = describeConstraintViolations(judged, constraints)
+  if (balanceWarning) warnings.unshift(balanceWarning)
+  const band = ratioBand({ flavor, ratioTarget, ratioRange })
+  const achievedRatio = judged.chloride > 0 ? Math.round((judged.sulfate / judged.chloride) * 100) / 100 : null
+
+  return ok({
+    additions: plan ? plan.additions : salts,
+    achieved: finalWater,
+    profiles: result.profiles,
+    boilVolumes: fromMetric(result.boilVolumes, units),
+    volumes: requestVolumes ? undefined : fromMetric(volumes, units), // derived from batch
+    rationale: plan?.rationale,
+    residuals: nnls?.residuals,
+    style: beerStyle ? styleReport(beerStyle, judged, result.mashPH) : undefined,
+    sulfateChlorideRatio: band
+      ? { achieved: achievedRatio, band, inBand: achievedRatio !== null && achievedRatio >= band.min - 0.01 && achievedRatio <= band.max + 0.01 }
+      : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    suggestedAcids: acidSource === 'liquid' ? suggestion?.suggestedAcids : undefined,
+    suggestedAcidulatedMalt: suggestion?.suggestedAcidulatedMalt,
+    acidOptions: suggestion?.acidOptions,
+    acidSource: suggestion ? acidSource : undefined,
+    predictions: { mashPH: result.mashPH, beforeAcidPH: result.beforeAcidPH, residualAlkalinity: result.metrics.final.residualAlkalinity, sulfateChlorideRatio: result.metrics.final.sulfateChlorideRatio },
+    metrics: result.metrics,
+    equilibrium: result.equilibrium,
+    grainMatches: result.grainMatches,
+    volumeMode,
+    units: request.units ? units : undefined
+  } satisfies CalculateAutoResponse)
+}
@@ -0,0 +1,8 @@
+import type { ErrorResponse } from '../types/api'
+
+// What a request comes to, whatever transport carries it: the status and JSON body to send
+export type Outcome<T> = { status: 200; body: T } | { status: 400 | 404; body: ErrorResponse }
+
+export const ok = <T>(body: T): Outcome<T> => ({ status: 200, body })
+
+export const fail = (status: 400 | 404, body: ErrorResponse): Outcome<never> => ({ status, body })
@@ -0,0 +1,16 @@
+import type { ProfilesQuery, ProfileList, WaterProfileEntry, StyleProfileEntry } from '../types/api'
+import { validateSchema } from '../schemas/json-schema'
+import { PROFILES_QUERY_SCHEMA } from '../schemas/requests'
+import { getWaterProfile, getStyleProfile, listWaterProfiles, listStyleProfiles } from '../data/profiles'
+import { ok, fail, Outcome } from './outcome'
+
+// GET /api/profiles without the transport: the ids of a type, or one profile by id
+export function handleProfiles(query: unknown): Outcome<ProfileList | WaterProfileEntry | StyleProfileEntry> {
+  const invalid = validateSchema(PROFILES_QUERY_SCHEMA, { ...(query as object) })
+  if (invalid.length > 0) return fail(400, { error: 'Invalid request', errors: invalid })
+
+  const { type = 'water', id } = query as ProfilesQuery
+  if (!id) return ok({ type, profiles: type === 'water' ? listWaterProfiles() : listStyleProfiles() } satisfies ProfileList)
+  const item = type === 'water' ? getWaterProfile(id) : getStyleProfile(id)
+  return item ? ok(item) : fail(404, { error: 'Not found', type, id })
+}
@@ -0,0 +1,76 @@
+import type { ValidateRequest, ValidateResponse } from '../types/api'
+import { resolveVolumes } from '../calculations/volumes'
+import { runPipeline } from '../calculations/pipeline'
+import { resolveUnits, normalizeRequest, fromMetric } from '../calculations/units'
+import { resolveSaltCatalog } from '../data/salts'
+import { ION_LIMITS } from '../data/constants'
+import { validateSchema } from '../schemas/json-schema'
+import { VALIDATE_REQUEST_SCHEMA, additionErrors } from '../schemas/requests'
+import { ok, fail, Outcome } from './outcome'
+
+// POST /api/validate without the transport: predicted mash pH, ion levels and issues for planned additions
+export function handleValidate(body: unknown): Outcome<ValidateResponse> {
+  const invalid = validateSchema(VALIDATE_REQUEST_SCHEMA, body)
+  if (invalid.length > 0) return fail(400, { error: 'Invalid request', errors: invalid })
+  const request = body as ValidateRequest
+  const { units, errors: unitErrors } = resolveUnits(request.units)
+  if (!units) return fail(400, { error: 'Invalid units', errors: unitErrors })
+  const { plannedAdditions, sourceWater, grainBill, volumes: requestVolumes, batch, volumeMode, phModel, assumeCarbonateDissolution, dissolution, customSalts, solutions } = normalizeRequest(request, units)
+
+  const grainKg = grainBill.reduce((s, g) => s + g.weight, 0)
+  const resolved = resolveVolumes(requestVolumes, batch, grainKg)
+  if (!resolved.volumes) return fail(400, { error: 'Invalid batch parameters', errors: resolved.errors })
+  const volumes = resolved.volumes
+  const { catalog, errors: saltErrors } = resolveSaltCatalog(customSalts, solutions)
+  if (!catalog) return fail(400, { error: 'Invalid custom salts or solutions', errors: saltErrors })
+  const unknownIds = additionErrors(plannedAdditions, catalog, 'plannedAdditions')
+  if (unknownIds.length > 0) return fail(400, { error: 'Invalid request', errors: unknownIds })
+
+  // The same pipeline as calculate; flat salts dissolve in the mash water unless volumeMode says otherwise
+  const result = runPipeline({
+    sourceWater,
+    grainBill,
+    volumes,
+    additions: plannedAdditions,
+    volumeMode,
+    phModel,
+    saltOptions: { assumeCarbonateDissolution, dissolution: dissolution || {}, catalog }
+  })
+  const { final: achieved, mashPH } = result
+
+  // Issues
+  const issues: { severity: 'error' | 'warning' | 'info'; message: string; suggestion?: string }[] = []
+
+  if (achieved.calcium < ION_LIMITS.calcium.min) {
+    issues.push({ severity: 'error', message: `Calcium too low (${achieved.calcium.toFixed(0)} ppm)`, suggestion: 'Add gypsum or calcium chloride' })
+  } else if (achieved.calcium > ION_LIMITS.calcium.max) {
+    issues.push({ severity: 'warning', message: `Calcium high (${achieved.calcium.toFixed(0)} ppm)` })
+  }
+
+  const ratio = achieved.chloride > 0 ? achieved.sulfate / achieved.chloride : 999
+  if (ratio < 0.5) issues.push({ severity: 'info', message: `Low sulfate:chloride ratio (${ratio.toFixed(1)}) → malty` })
+  if (ratio > 2.0) issues.push({ severity: 'info', message: `High sulfate:chloride ratio (${ratio.toFixed(1)}) → hoppy` })
+
+  for (const issue of result.solubility) {
+    const suggestion = issue.saltId === 'calcium_carbonate'
+      ? 'Add chalk to the mash or dissolve it in CO2-saturated water'
+      : 'Spread the addition over more water'
+    issues.push({ severity: 'warning', message: issue.message, suggestion })
+  }
+
+  if (mashPH < 5.2) issues.push({ severity: 'warning', message: `Predicted mash pH low (${mashPH.toFixed(2)})`, suggestion: 'Reduce acid or add baking soda' })
+  if (mashPH > 5.6) issues.push({ severity: 'error', message: `Predicted mash pH high (${mashPH.toFixed(2)})`, suggestion: 'Add lactic or phosphoric acid' })
+
+  return ok({
+    valid: !issues.some(i => i.severity === 'error'),
+    issues,
+    predictions: { mashPH, residualAlkalinity: result.metrics.final.residualAlkalinity, sulfateChlorideRatio: result.metrics.final.sulfateChlorideRatio },
+    metrics: result.metrics,
+    profiles: result.profiles,
+    boilVolumes: fromMetric(result.boilVolumes, units),
+    volumes: requestVolumes ? undefined : fromMetric(volumes, units), // derived from batch
+    equilibrium: result.equilibrium,
+    grainMatches: result.grainMatches,
+    units: request.units ? units : undefined
+  } satisfies ValidateResponse)
+}
@@ -0,0 +1,61 @@
+/**
+ * Library entry point: the chemistry behind the api/ handlers without
+ * @vercel/node or any other transport, for Node, browsers and React Native.
+ * Requests and responses are the handlers' own, so a request gives the same
+ * result here as from the API.
+ */
+import type { WaterProfile, Volumes, GrainBillItem, PHModel } from './types'
+import type { CalculateRequest, CalculateManualResponse, CalculateAutoResponse, ValidateRequest, ValidateResponse, ErrorResponse } from './types/api'
+import { handleCalculate } from './handlers/calculate'
+import { handleValidate } from './handlers/validate'
+import { Outcome } from './handlers/outcome'
+import { PH_MODELS, MASH_TEMPERATURE, mashThickness, MashPHModel } from './calculations/pipeline'
+
+// A request the API would answer with 400 or 404; body is that response
+export class WaterChemistryError extends Error {
+  constructor(readonly status: 400 | 404, readonly body: ErrorResponse) {
+    super(body.error)
+    this.name = 'WaterChemistryError'
+  }
+}
+
+function unwrap<T>(outcome: Outcome<T>): T {
+  if (outcome.status === 200) return outcome.body
+  throw new WaterChemistryError(outcome.status, outcome.body)
+}
+
+// POST /api/calculate: manual mode for given additions, auto mode optimizes for a target or style
+export function calculate(request: CalculateRequest): CalculateManualResponse | CalculateAutoResponse {
+  return unwrap(handleCalculate(request))
+}
+
+// POST /api/validate
+export function validate(request: ValidateRequest): ValidateResponse {
+  return unwrap(handleValidate(request))
+}
+
+// Salts for a target water or style: calculate in auto mode
+export function optimize(request: Omit<CalculateRequest, 'mode'>): CalculateAutoResponse {
+  return unwrap(handleCalculate({ ...request, mode: 'auto' })) as CalculateAutoResponse
+}
+
+// Mash pH of the water as it is (liters, kg, EBC), by model name or a custom model
+export function predictPH(water: WaterProfile, grainBill: GrainBillItem[], volumes: Volumes, phModel: PHModel | MashPHModel = 'simple'): number {
+  const model = typeof phModel === 'function' ? phModel : PH_MODELS[phModel]
+  return model(water, { grainBill, volumes, mashThickness: mashThickness(grainBill, volumes), temperature: MASH_TEMPERATURE })
+}
+
+export { getWaterProfile, getStyleProfile, listWaterProfiles, listStyleProfiles, WATER_PROFILES, STYLE_PROFILES } from './data/profiles'
+export { getBeerStyle, BEER_STYLES } from './data/styles'
+export { SALTS, resolveSaltCatalog } from './data/salts'
+export { runPipeline, PH_MODELS } from './calculations/pipeline'
+export { validateSchema } from './schemas/json-schema'
+export { REQUEST_SCHEMAS } from './schemas/requests'
+
+export type { WaterProfile, Volumes, VolumeMode, GrainBillItem, PHModel } from './types'
+export type * from './types/api'
+export type { PipelineInput, PipelineResult, MashPHModel, MashContext, AcidRecommendation } from './calculations/pipeline'
+export type { StageAdditions, StagedAdditions, StagedProfiles } from './calculations/staged'
+export type { SaltDefinition, SaltCatalog, CustomSaltSpec, SolutionSpec } from './data/salts'
+export type { BeerStyle } from './data/styles'
+export type { FieldError, JSONSchema } from './schemas/json-schema'
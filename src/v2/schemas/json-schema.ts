@@ -0,0 +1,153 @@
+// The subset of JSON Schema (2020-12) the request schemas are written in.
+// Schemas are plain objects, so they can be served as they are for client code generation.
+export type SchemaType = 'object' | 'array' | 'number' | 'integer' | 'string' | 'boolean' | 'null'
+
+export interface JSONSchema {
+  $schema?: string
+  $id?: string
+  $ref?: string // only in the OpenAPI document, which refers to shared schemas by title
+  title?: string
+  description?: string
+  type?: SchemaType
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  items?: JSONSchema
+  minItems?: number
+  maxItems?: number
+  enum?: (string | number | boolean)[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  minLength?: number
+  anyOf?: JSONSchema[]
+  default?: unknown
+}
+
+// One schema per field of T: adding, removing or renaming a field of T breaks
+// the build until its schema follows, so schemas cannot drift from the types
+export type PropertiesOf<T> = { [K in keyof T]-?: JSONSchema }
+
+export function objectOf<T>(properties: PropertiesOf<T>, required: (keyof T & string)[] = [], rest: JSONSchema = {}): JSONSchema {
+  return { ...rest, type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+}
+
+// Every member of a string union, e.g. enumOf<PHModel>({ simple: true, ... })
+export function enumOf<T extends string>(members: Record<T, true>, rest: JSONSchema = {}): JSONSchema {
+  return { ...rest, type: 'string', enum: Object.keys(members) }
+}
+
+// Record<string, T>, e.g. grams by salt id
+export const mapOf = (values: JSONSchema, description?: string): JSONSchema =>
+  ({ type: 'object', ...(description ? { description } : {}), additionalProperties: values })
+
+export const nullable = (schema: JSONSchema): JSONSchema => ({ anyOf: [schema, { type: 'null' }] })
+
+export type FieldErrorCode = 'required' | 'type' | 'enum' | 'minimum' | 'maximum' | 'exclusiveMinimum' | 'minItems' | 'maxItems' | 'minLength' | 'unknown_field' | 'unknown_salt' | 'unknown_acid'
+
+// One problem with one field; path is like grainBill[0].weight
+export interface FieldError {
+  path: string
+  code: FieldErrorCode
+  message: string
+}
+
+export const fieldPath = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && !isFinite(value)) return String(value) // NaN, Infinity
+  return typeof value
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  if (type === 'integer') return Number.isInteger(value)
+  if (type === 'number') return typeof value === 'number' && isFinite(value)
+  return typeOf(value) === type
+}
+
+// Fields a branch of anyOf lists as required, when that is all the branch checks
+const requiredOnly = (schema: JSONSchema) =>
+  Object.keys(schema).every((key) => key === 'required') ? schema.required || [] : undefined
+
+/**
+ * Every way the value breaks the schema, with the path of the offending
+ * field. Numbers must be finite (NaN and Infinity never pass), and anyOf
+ * reports the branch that came closest, or "one of a, b is required" when the
+ * branches only name required fields.
+ */
+export function validateSchema(schema: JSONSchema, value: unknown, path = ''): FieldError[] {
+  const at = path || 'body'
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((branch) => validateSchema(branch, value, path))
+    if (branches.some((errors) => errors.length === 0)) {
+      const { anyOf, ...rest } = schema
+      return validateSchema(rest, value, path)
+    }
+    const required = schema.anyOf.map(requiredOnly)
+    if (required.every((fields) => fields !== undefined)) {
+      const { anyOf, ...rest } = schema
+      const fields = required.flat() as string[]
+      return [
+        { path: at, code: 'required', message: `one of ${fields.join(', ')} is required` },
+        ...validateSchema(rest, value, path)
+      ]
+    }
+    return branches.reduce((best, errors) => (errors.length < best.length ? errors : best))
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a'
+    return [{ path: at, code: 'type', message: `${at} must be ${article} ${schema.type}, not ${typeOf(value)}` }]
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [{ path: at, code: 'enum', message: `${at} must be one of ${schema.enum.join(', ')}` }]
+  }
+
+  const errors: FieldError[] = []
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path: at, code: 'minimum', message: `${at} must be at least ${schema.minimum}` })
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path: at, code: 'exclusiveMinimum', message: `${at} must be greater than ${schema.exclusiveMinimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path: at, code: 'maximum', message: `${at} must be at most ${schema.maximum}` })
+    }
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path: at, code: 'minLength', message: `${at} cannot be empty` })
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, code: 'minItems', message: `${at} needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` })
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path: at, code: 'maxItems', message: `${at} takes at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}` })
+    }
+    if (schema.items) value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, fieldPath(path, i))))
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        const field = fieldPath(path, key)
+        errors.push({ path: field, code: 'required', message: `${field} is required` })
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (item === undefined) continue
+      const field = fieldPath(path, key)
+      const property = schema.properties?.[key]
+      if (property) errors.push(...validateSchema(property, item, field))
+      else if (schema.additionalProperties === false) errors.push({ path: field, code: 'unknown_field', message: `${field} is not a known field` })
+      else if (typeof schema.additionalProperties === 'object') errors.push(...validateSchema(schema.additionalProperties, item, field))
+    }
+  }
+  return errors
+}
@@ -0,0 +1,190 @@
+import { JSONSchema } from './json-schema'
+import {
+  CALCULATE_REQUEST_SCHEMA, VALIDATE_REQUEST_SCHEMA, PROFILES_QUERY_SCHEMA, SCHEMAS_QUERY_SCHEMA, SPARGE_REQUEST_SCHEMA,
+  BLEND_REQUEST_SCHEMA, VOLUMES_REQUEST_SCHEMA, WATER_IMPORT_REQUEST_SCHEMA, WATER_BALANCE_REQUEST_SCHEMA
+} from './requests'
+import {
+  CALCULATE_MANUAL_RESPONSE_SCHEMA, CALCULATE_AUTO_RESPONSE_SCHEMA, VALIDATE_RESPONSE_SCHEMA, SPARGE_RESPONSE_SCHEMA,
+  BLEND_RESPONSE_SCHEMA, VOLUMES_RESPONSE_SCHEMA, WATER_IMPORT_RESPONSE_SCHEMA, ION_BALANCE_SCHEMA, SALT_CATALOG_SCHEMA,
+  PROFILE_LIST_SCHEMA, WATER_PROFILE_ENTRY_SCHEMA, STYLE_PROFILE_ENTRY_SCHEMA, ERROR_RESPONSE_SCHEMA
+} from './responses'
+import packageJson from '../../../package.json'
+
+interface Route {
+  path: string
+  method: 'get' | 'post'
+  summary: string
+  query?: JSONSchema // object schema, one parameter per property
+  body?: JSONSchema
+  csvBody?: boolean  // also accepts text/csv
+  response: JSONSchema
+  errors: (400 | 404)[]
+}
+
+const ANY_JSON: JSONSchema = { description: 'Any JSON' }
+
+// Every handler under api/, by the path Vercel serves it at
+export const ROUTES: Route[] = [
+  {
+    path: '/api/calculate',
+    method: 'post',
+    summary: 'Water profile, mash pH and acid suggestions for given salts (manual), or optimized salts for a target or style (auto)',
+    body: CALCULATE_REQUEST_SCHEMA,
+    response: { anyOf: [CALCULATE_MANUAL_RESPONSE_SCHEMA, CALCULATE_AUTO_RESPONSE_SCHEMA] },
+    errors: [400, 404]
+  },
+  {
+    path: '/api/validate',
+    method: 'post',
+    summary: 'Check planned additions: predicted mash pH, ion levels and solubility issues',
+    body: VALIDATE_REQUEST_SCHEMA,
+    response: VALIDATE_RESPONSE_SCHEMA,
+    errors: [400]
+  },
+  {
+    path: '/api/profiles',
+    method: 'get',
+    summary: 'Water and style profiles: the ids of a type, or one profile by id',
+    query: PROFILES_QUERY_SCHEMA,
+    response: { anyOf: [PROFILE_LIST_SCHEMA, WATER_PROFILE_ENTRY_SCHEMA, STYLE_PROFILE_ENTRY_SCHEMA] },
+    errors: [400, 404]
+  },
+  {
+    path: '/api/salts',
+    method: 'get',
+    summary: 'The salt registry calculate and validate compute with',
+    response: SALT_CATALOG_SCHEMA,
+    errors: []
+  },
+  {
+    path: '/api/schemas',
+    method: 'get',
+    summary: 'JSON Schemas the calculate, validate and profiles requests are checked against',
+    query: SCHEMAS_QUERY_SCHEMA,
+    response: ANY_JSON,
+    errors: [404]
+  },
+  {
+    path: '/api/openapi.json',
+    method: 'get',
+    summary: 'This document',
+    response: ANY_JSON,
+    errors: []
+  },
+  {
+    path: '/api/sparge',
+    method: 'post',
+    summary: 'Acid needed to bring sparge water to a target pH',
+    body: SPARGE_REQUEST_SCHEMA,
+    response: SPARGE_RESPONSE_SCHEMA,
+    errors: [400]
+  },
+  {
+    path: '/api/blend',
+    method: 'post',
+    summary: 'Blend ratios of two or more source waters towards a target, optionally with salts',
+    body: BLEND_REQUEST_SCHEMA,
+    response: BLEND_RESPONSE_SCHEMA,
+    errors: [400, 404]
+  },
+  {
+    path: '/api/volumes',
+    method: 'post',
+    summary: 'Mash, sparge and boil volumes from batch parameters',
+    body: VOLUMES_REQUEST_SCHEMA,
+    response: VOLUMES_RESPONSE_SCHEMA,
+    errors: [400]
+  },
+  {
+    path: '/api/water/import',
+    method: 'post',
+    summary: 'Water profile from a lab report with mixed units',
+    body: WATER_IMPORT_REQUEST_SCHEMA,
+    csvBody: true,
+    response: WATER_IMPORT_RESPONSE_SCHEMA,
+    errors: [400]
+  },
+  {
+    path: '/api/water/balance',
+    method: 'post',
+    summary: 'Cation/anion balance of a water report',
+    body: WATER_BALANCE_REQUEST_SCHEMA,
+    response: ION_BALANCE_SCHEMA,
+    errors: [400]
+  }
+]
+
+const ERROR_DESCRIPTIONS = { 400: 'Invalid request', 404: 'Not found', 405: 'Method not allowed', 500: 'Calculation failed' }
+
+// Moves titled schemas into components and refers to them by title; $schema and $id
+// are dropped, since an $id would change what the refs inside resolve against
+function hoist(schema: JSONSchema, components: Record<string, JSONSchema>): JSONSchema {
+  const { $schema, $id, ...rest } = schema
+  const out: JSONSchema = { ...rest }
+  if (rest.properties) out.properties = Object.fromEntries(Object.entries(rest.properties).map(([key, value]) => [key, hoist(value, components)]))
+  if (typeof rest.additionalProperties === 'object') out.additionalProperties = hoist(rest.additionalProperties, components)
+  if (rest.items) out.items = hoist(rest.items, components)
+  if (rest.anyOf) out.anyOf = rest.anyOf.map((branch) => hoist(branch, components))
+  if (!rest.title) return out
+  components[rest.title] = components[rest.title] || out
+  return { $ref: `#/components/schemas/${rest.title}` }
+}
+
+function queryParameters(query: JSONSchema, components: Record<string, JSONSchema>) {
+  return Object.entries(query.properties || {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: (query.required || []).includes(name),
+    ...(schema.description ? { description: schema.description } : {}),
+    schema: hoist(schema, components)
+  }))
+}
+
+/**
+ * OpenAPI 3.1 document for every route. Request and response schemas are the
+ * ones typed against the handlers' request and response interfaces, so a
+ * field that changes in a handler's types has to change here to compile.
+ */
+export function buildOpenAPIDocument() {
+  const schemas: Record<string, JSONSchema> = {}
+  const errorRef = hoist(ERROR_RESPONSE_SCHEMA, schemas)
+  const errorResponse = (status: keyof typeof ERROR_DESCRIPTIONS) => ({
+    description: ERROR_DESCRIPTIONS[status],
+    content: { 'application/json': { schema: errorRef } }
+  })
+
+  const paths: Record<string, Record<string, unknown>> = {}
+  for (const route of ROUTES) {
+    const body = route.body ? hoist(route.body, schemas) : undefined
+    paths[route.path] = {
+      [route.method]: {
+        summary: route.summary,
+        ...(route.query ? { parameters: queryParameters(route.query, schemas) } : {}),
+        ...(body
+          ? {
+              requestBody: {
+                required: true,
+                content: {
+                  'application/json': { schema: body },
+                  ...(route.csvBody ? { 'text/csv': { schema: { type: 'string' } } } : {})
+                }
+              }
+            }
+          : {}),
+        responses: {
+          200: { description: 'OK', content: { 'application/json': { schema: hoist(route.response, schemas) } } },
+          ...Object.fromEntries(route.errors.map((status) => [status, errorResponse(status)])),
+          405: errorResponse(405),
+          ...(route.method === 'post' ? { 500: errorResponse(500) } : {})
+        }
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: 'Water Chemistry API', version: packageJson.version },
+    paths,
+    components: { schemas }
+  }
+}
@@ -0,0 +1,316 @@
+import { JSONSchema, FieldError, fieldPath, objectOf, enumOf, mapOf } from './json-schema'
+import { SaltCatalog, IonsPPM, CustomSaltSpec, SolutionSpec } from '../data/salts'
+import { parseAcidId } from '../calculations/acids'
+import { MAX_BLEND_SOURCES } from '../calculations/blend'
+import type { WaterProfile, Volumes, GrainBillItem, PHModel, VolumeMode } from '../types'
+import type { StageAdditions, StagedAdditions } from '../calculations/staged'
+import type { BatchParameters } from '../calculations/volumes'
+import type { DissolutionOptions, CO2Availability } from '../calculations/dissolution'
+import type { IonConstraints, IonKey, Flavor } from '../calculations/optimize'
+import type { UnitOptions } from '../calculations/units'
+import type { ReportValue } from '../calculations/water-report'
+import type {
+  CalculateRequest, ValidateRequest, ProfilesQuery, SchemasQuery, SpargeRequest, BlendRequest,
+  VolumesRequest, WaterImportRequest, WaterBalanceRequest, CalculateMode, Optimization, AcidSource
+} from '../types/api'
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+const ppm: JSONSchema = { type: 'number', minimum: 0 }
+const pH: JSONSchema = { type: 'number', minimum: 0, maximum: 14 }
+const positive: JSONSchema = { type: 'number', exclusiveMinimum: 0 }
+const nonNegative: JSONSchema = { type: 'number', minimum: 0 }
+const id: JSONSchema = { type: 'string', minLength: 1 }
+
+export const WATER_PROFILE_PROPERTIES = {
+  calcium: ppm,
+  magnesium: ppm,
+  sodium: ppm,
+  sulfate: ppm,
+  chloride: ppm,
+  bicarbonate: ppm,
+  carbonate: ppm,
+  alkalinity: ppm,
+  ph: pH
+}
+
+export const WATER_PROFILE_SCHEMA = objectOf<WaterProfile>(
+  WATER_PROFILE_PROPERTIES,
+  ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate'],
+  { title: 'WaterProfile', description: 'Ion concentrations in mg/L (ppm)' }
+)
+
+export const VOLUMES_SCHEMA = objectOf<Volumes>({
+  total: positive,
+  mash: positive,
+  sparge: nonNegative,
+  grainAbsorption: nonNegative,
+  boilOff: nonNegative,
+  deadSpace: nonNegative
+}, ['total', 'mash', 'sparge'], { title: 'Volumes', description: 'Water volumes in liters (or the units option)' })
+
+const BATCH_PROPERTIES = {
+  batchSize: positive,
+  grainWeight: positive,
+  mashThickness: positive,
+  grainAbsorption: nonNegative,
+  boilTime: nonNegative,
+  evaporationRate: nonNegative,
+  deadSpace: nonNegative,
+  biab: { type: 'boolean' } as JSONSchema
+}
+
+export const BATCH_SCHEMA = objectOf<BatchParameters>(BATCH_PROPERTIES, ['batchSize'], {
+  title: 'BatchParameters',
+  description: 'Recipe parameters the volumes are derived from; grainWeight defaults to the grain bill'
+})
+
+export const GRAIN_BILL_SCHEMA: JSONSchema = {
+  type: 'array',
+  minItems: 1,
+  items: objectOf<GrainBillItem>({
+    id: { ...id, description: 'Grain database id' },
+    name: { type: 'string' },
+    weight: { ...positive, description: 'kg (or the units option)' },
+    color: { ...nonNegative, description: 'EBC (or the units option)' },
+    type: enumOf<GrainBillItem['type']>({ base: true, crystal: true, roasted: true, acidulated: true, wheat: true }),
+    percentage: nonNegative
+  }, ['name', 'weight', 'color'], { title: 'GrainBillItem' })
+}
+
+const STAGE_ADDITIONS_PROPERTIES = {
+  salts: mapOf(nonNegative, 'Grams by salt id, ml for stock solutions'),
+  acids: mapOf(nonNegative, 'ml by acid id, e.g. lactic_88')
+}
+
+const STAGE_ADDITIONS_SCHEMA = objectOf<StageAdditions>(STAGE_ADDITIONS_PROPERTIES, [], { title: 'StageAdditions', additionalProperties: false })
+
+export const ADDITIONS_SCHEMA = objectOf<StageAdditions & StagedAdditions>({
+  ...STAGE_ADDITIONS_PROPERTIES,
+  mash: STAGE_ADDITIONS_SCHEMA,
+  sparge: STAGE_ADDITIONS_SCHEMA,
+  boil: STAGE_ADDITIONS_SCHEMA
+}, [], {
+  title: 'Additions',
+  description: '{ salts, acids } for the whole batch, or the same per stage { mash, sparge, boil }',
+  additionalProperties: false
+})
+
+// Unit names are matched case-insensitively, so they are not enums here
+export const UNITS_OPTION_SCHEMA: JSONSchema = {
+  description: '"metric" (L, kg, EBC), "imperial" (gal, lb, SRM), or a system with single units overridden',
+  anyOf: [
+    { type: 'string', description: 'metric or imperial' },
+    objectOf<UnitOptions>({
+      system: { type: 'string', description: 'metric or imperial' },
+      color: { type: 'string', description: 'EBC, SRM or Lovibond' },
+      volume: { type: 'string', description: 'L, gal or qt' },
+      weight: { type: 'string', description: 'kg, g, lb or oz' }
+    }, [], { additionalProperties: false })
+  ]
+}
+
+const DISSOLUTION_SCHEMA = objectOf<DissolutionOptions>({
+  mashPH: pH,
+  co2: { anyOf: [enumOf<Exclude<CO2Availability, number>>({ none: true, atmospheric: true, saturated: true }), { ...nonNegative, description: 'atm' }] }
+}, [], { additionalProperties: false })
+
+const ions = (description: string) => objectOf<IonsPPM>({
+  calcium: nonNegative,
+  magnesium: nonNegative,
+  sodium: nonNegative,
+  sulfate: nonNegative,
+  chloride: nonNegative,
+  bicarbonate: nonNegative,
+  carbonate: nonNegative
+}, [], { description, additionalProperties: false })
+
+const CUSTOM_SALT_SCHEMA = objectOf<CustomSaltSpec>({
+  name: { type: 'string' },
+  formula: { type: 'string' },
+  hydration: nonNegative,
+  ions: ions('mol per formula unit'),
+  ionsPPMPerGram: ions('mg/L per gram in one liter'),
+  solubilityLimit: nonNegative
+}, [], { title: 'CustomSalt', additionalProperties: false })
+
+const SOLUTION_SCHEMA = objectOf<SolutionSpec>({
+  name: { type: 'string' },
+  salt: id,
+  concentration: { ...positive, maximum: 100, description: '% w/w' },
+  density: { ...positive, description: 'g/ml' }
+}, ['salt', 'concentration', 'density'], { title: 'Solution', additionalProperties: false })
+
+const phModel = enumOf<PHModel>({ simple: true, kaiser: true, advanced: true, brunwater: true }, { default: 'simple' })
+
+// Fields calculate and validate share
+const COMMON_PROPERTIES = {
+  sourceWater: WATER_PROFILE_SCHEMA,
+  grainBill: GRAIN_BILL_SCHEMA,
+  volumes: VOLUMES_SCHEMA,
+  batch: BATCH_SCHEMA,
+  phModel,
+  assumeCarbonateDissolution: { type: 'boolean' } as JSONSchema,
+  dissolution: DISSOLUTION_SCHEMA,
+  customSalts: mapOf(CUSTOM_SALT_SCHEMA, 'Salts or mineral concentrates by id'),
+  solutions: mapOf(SOLUTION_SCHEMA, 'Stock solutions by id, dosed in ml'),
+  units: UNITS_OPTION_SCHEMA
+}
+
+const VOLUME_MODE_SCHEMA = enumOf<VolumeMode>({ mash: true, total: true, staged: true }, { default: 'mash' })
+
+export const CALCULATE_REQUEST_SCHEMA = objectOf<CalculateRequest>({
+  ...COMMON_PROPERTIES,
+  targetWater: WATER_PROFILE_SCHEMA,
+  mode: enumOf<CalculateMode>({ manual: true, auto: true }, { default: 'manual' }),
+  volumeMode: VOLUME_MODE_SCHEMA,
+  additions: ADDITIONS_SCHEMA,
+  optimization: enumOf<Optimization>({ simple: true, balanced: true, exact: true, nnls: true }, { default: 'simple' }),
+  targetMashPH: pH,
+  acidSource: enumOf<AcidSource>({ liquid: true, acidulated_malt: true }, { default: 'liquid' }),
+  acidulatedMaltLacticPercent: { ...positive, maximum: 100 },
+  allowedSalts: { type: 'array', items: id },
+  maxSalts: { type: 'integer', minimum: 1 },
+  maxSaltAmount: positive,
+  tolerancePPM: nonNegative,
+  constraints: objectOf<IonConstraints>({ maxSodium: ppm, maxMagnesium: ppm, maxCalcium: ppm, maxTDS: ppm }, [], { additionalProperties: false }),
+  weights: objectOf<Partial<Record<IonKey, number>>>({
+    calcium: nonNegative,
+    magnesium: nonNegative,
+    sodium: nonNegative,
+    sulfate: nonNegative,
+    chloride: nonNegative,
+    bicarbonate: nonNegative
+  }, [], { description: 'Relative weight per ion for nnls', additionalProperties: false }),
+  flavor: enumOf<Flavor>({ hoppy: true, balanced: true, malty: true }),
+  ratioTarget: positive,
+  ratioWeight: nonNegative,
+  style: id
+}, ['sourceWater', 'grainBill'], {
+  $schema: SCHEMA_DIALECT,
+  $id: 'calculate-request',
+  title: 'CalculateRequest',
+  description: 'POST /api/calculate',
+  anyOf: [{ required: ['volumes'] }, { required: ['batch'] }]
+})
+
+export const VALIDATE_REQUEST_SCHEMA = objectOf<ValidateRequest>({
+  ...COMMON_PROPERTIES,
+  plannedAdditions: ADDITIONS_SCHEMA,
+  volumeMode: VOLUME_MODE_SCHEMA
+}, ['plannedAdditions', 'sourceWater', 'grainBill'], {
+  $schema: SCHEMA_DIALECT,
+  $id: 'validate-request',
+  title: 'ValidateRequest',
+  description: 'POST /api/validate',
+  anyOf: [{ required: ['volumes'] }, { required: ['batch'] }]
+})
+
+export const PROFILES_QUERY_SCHEMA = objectOf<ProfilesQuery>({
+  type: enumOf<NonNullable<ProfilesQuery['type']>>({ water: true, style: true }, { default: 'water' }),
+  id: { ...id, description: 'Profile id; lists the ids when left out' }
+}, [], {
+  $schema: SCHEMA_DIALECT,
+  $id: 'profiles-query',
+  title: 'ProfilesQuery',
+  description: 'GET /api/profiles query parameters'
+})
+
+// By request name, for GET /api/schemas and client code generation
+export const REQUEST_SCHEMAS: Record<string, JSONSchema> = {
+  calculate: CALCULATE_REQUEST_SCHEMA,
+  validate: VALIDATE_REQUEST_SCHEMA,
+  profiles: PROFILES_QUERY_SCHEMA
+}
+
+// The remaining endpoints' bodies, for the OpenAPI document; sparge and blend validate against them first
+
+export const SCHEMAS_QUERY_SCHEMA = objectOf<SchemasQuery>({
+  name: { type: 'string', enum: Object.keys(REQUEST_SCHEMAS), description: 'One schema; all of them by name when left out' }
+})
+
+export const SPARGE_REQUEST_SCHEMA = objectOf<SpargeRequest>({
+  spargeWater: WATER_PROFILE_SCHEMA,
+  startingPH: { ...pH, description: 'Defaults to spargeWater.ph' },
+  volume: { ...positive, description: 'Liters (or the units option)' },
+  targetPH: { ...pH, default: 5.8 },
+  acid: { ...id, default: 'lactic_88', description: 'Acid id, e.g. lactic_88 or phosphoric_10' },
+  units: UNITS_OPTION_SCHEMA
+}, ['spargeWater', 'volume'], { title: 'SpargeRequest' })
+
+export const BLEND_REQUEST_SCHEMA = objectOf<BlendRequest>({
+  sources: {
+    type: 'array',
+    minItems: 2,
+    maxItems: MAX_BLEND_SOURCES,
+    description: 'water-profiles.json ids or inline profiles',
+    items: {
+      anyOf: [
+        id,
+        objectOf<WaterProfile & { id?: string; name?: string }>({ ...WATER_PROFILE_PROPERTIES, id, name: { type: 'string' } },
+          ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate'])
+      ]
+    }
+  },
+  targetWater: WATER_PROFILE_SCHEMA,
+  style: { ...id, description: 'style-profiles.json id, in place of targetWater' },
+  withSalts: { type: 'boolean', default: false },
+  volumes: VOLUMES_SCHEMA, // required with withSalts
+  volumeMode: VOLUME_MODE_SCHEMA,
+  assumeCarbonateDissolution: { type: 'boolean' },
+  units: UNITS_OPTION_SCHEMA
+}, ['sources'], { title: 'BlendRequest' })
+
+export const VOLUMES_REQUEST_SCHEMA = objectOf<VolumesRequest>({
+  ...BATCH_PROPERTIES,
+  units: UNITS_OPTION_SCHEMA
+}, ['batchSize', 'grainWeight'], { title: 'VolumesRequest' })
+
+export const WATER_IMPORT_REQUEST_SCHEMA = objectOf<WaterImportRequest>({
+  report: mapOf({
+    anyOf: [
+      { type: 'number' },
+      { type: 'string', description: 'Value with its unit, e.g. "12 mg/L as S"' },
+      objectOf<ReportValue>({ value: { anyOf: [{ type: 'number' }, { type: 'string' }] }, unit: { type: 'string' } }, ['value'])
+    ]
+  }, 'Lab report lines by name'),
+  csv: { type: 'string', description: 'The report as CSV; text/csv bodies are read the same way' }
+}, [], { title: 'WaterImportRequest' })
+
+export const WATER_BALANCE_REQUEST_SCHEMA = objectOf<WaterBalanceRequest>({
+  water: objectOf<WaterProfile>(WATER_PROFILE_PROPERTIES, [], { description: 'Water report; missing ions count as 0' })
+}, ['water'], { title: 'WaterBalanceRequest' })
+
+/**
+ * What the schemas cannot see: salt and acid ids in additions that the salt
+ * catalog (built-ins plus the request's custom salts and solutions) or the
+ * acid table does not know. Flat and staged additions are both checked.
+ */
+export function additionErrors(additions: unknown, catalog: SaltCatalog, path: string): FieldError[] {
+  if (!additions || typeof additions !== 'object') return []
+  const errors: FieldError[] = []
+  const record = additions as Record<string, any>
+  const check = (stage: Record<string, any> | undefined, stagePath: string) => {
+    for (const saltId of Object.keys(stage?.salts || {})) {
+      if (catalog[saltId]) continue
+      const field = fieldPath(fieldPath(stagePath, 'salts'), saltId)
+      errors.push({ path: field, code: 'unknown_salt', message: `${saltId} is not a known salt` })
+    }
+    for (const acidId of Object.keys(stage?.acids || {})) {
+      if (parseAcidId(acidId)) continue
+      const field = fieldPath(fieldPath(stagePath, 'acids'), acidId)
+      errors.push({ path: field, code: 'unknown_acid', message: `${acidId} is not a known acid` })
+    }
+  }
+  check(record, path)
+  for (const stage of ['mash', 'sparge', 'boil']) check(record[stage], fieldPath(path, stage))
+  return errors
+}
+
+export function saltIdErrors(ids: string[] | undefined, catalog: SaltCatalog, path: string): FieldError[] {
+  return (ids || [])
+    .map((saltId, i): FieldError | undefined => catalog[saltId]
+      ? undefined
+      : { path: fieldPath(path, i), code: 'unknown_salt', message: `${saltId} is not a known salt` })
+    .filter((e): e is FieldError => e !== undefined)
+}
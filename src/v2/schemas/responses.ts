@@ -0,0 +1,302 @@
+import { JSONSchema, FieldErrorCode, FieldError, objectOf, enumOf, mapOf, nullable } from './json-schema'
+import { WATER_PROFILE_SCHEMA, WATER_PROFILE_PROPERTIES, VOLUMES_SCHEMA, ADDITIONS_SCHEMA } from './requests'
+import type { VolumeMode } from '../types'
+import type { StagedProfiles } from '../calculations/staged'
+import type { BoilVolumes } from '../calculations/volumes'
+import type { WaterMetrics, WaterMetricsSet } from '../calculations/metrics'
+import type { StyleReport, RangeStatus } from '../calculations/styles'
+import type { ChemicalSpecies } from '../calculations/ph'
+import type { IonKey } from '../calculations/optimize'
+import type { Units, ColorUnit, VolumeUnit, WeightUnit } from '../calculations/units'
+import type { IonBalance, IonSuggestion, BalanceStatus } from '../calculations/ion-balance'
+import type { ImportConversion } from '../calculations/water-report'
+import type { SpargeAcidificationResult } from '../calculations/sparge'
+import type { SaltDefinition, IonsPPM, SolutionSpec } from '../data/salts'
+import type { GrainMatch } from '../../core/grain-database'
+import type {
+  Predictions, Equilibrium, GrainMatchReport, AcidulatedMaltSuggestion, CalculateResponseBase, CalculateManualResponse,
+  CalculateAutoResponse, SulfateChlorideBand, ValidationIssue, ValidateResponse, SpargeResponse, BlendResponse,
+  VolumesResponse, WaterImportResponse, ProfileList, WaterProfileEntry, StyleProfileEntry, ErrorResponse, AcidSource
+} from '../types/api'
+
+const number: JSONSchema = { type: 'number' }
+const string: JSONSchema = { type: 'string' }
+const strings: JSONSchema = { type: 'array', items: string }
+const amounts = mapOf(number)
+
+const IONS = { calcium: number, magnesium: number, sodium: number, sulfate: number, chloride: number, bicarbonate: number }
+
+export const UNITS_SCHEMA = objectOf<Units>({
+  color: enumOf<ColorUnit>({ EBC: true, SRM: true, Lovibond: true }),
+  volume: enumOf<VolumeUnit>({ L: true, gal: true, qt: true }),
+  weight: enumOf<WeightUnit>({ kg: true, g: true, lb: true, oz: true })
+}, ['color', 'volume', 'weight'], { title: 'Units', description: 'Units the request was read and answered in' })
+
+export const STAGED_PROFILES_SCHEMA = objectOf<StagedProfiles>({
+  mash: WATER_PROFILE_SCHEMA,
+  sparge: WATER_PROFILE_SCHEMA,
+  kettle: WATER_PROFILE_SCHEMA,
+  postBoil: WATER_PROFILE_SCHEMA
+}, ['mash', 'sparge', 'kettle', 'postBoil'], { title: 'StagedProfiles' })
+
+export const BOIL_VOLUMES_SCHEMA = objectOf<BoilVolumes>({
+  collected: number,
+  absorbed: number,
+  preBoil: number,
+  evaporated: number,
+  postBoil: number,
+  intoFermenter: number,
+  concentrationFactor: number
+}, ['collected', 'absorbed', 'preBoil', 'evaporated', 'postBoil', 'intoFermenter', 'concentrationFactor'], { title: 'BoilVolumes' })
+
+const WATER_METRICS_SCHEMA = objectOf<WaterMetrics>({
+  totalHardness: number,
+  temporaryHardness: number,
+  permanentHardness: number,
+  alkalinity: number,
+  residualAlkalinity: number,
+  sulfateChlorideRatio: nullable(number),
+  tds: number,
+  ionicStrength: number
+}, ['totalHardness', 'temporaryHardness', 'permanentHardness', 'alkalinity', 'residualAlkalinity', 'sulfateChlorideRatio', 'tds', 'ionicStrength'], { title: 'WaterMetrics' })
+
+export const METRICS_SCHEMA = objectOf<WaterMetricsSet>({
+  source: WATER_METRICS_SCHEMA,
+  achieved: WATER_METRICS_SCHEMA,
+  final: WATER_METRICS_SCHEMA
+}, ['source', 'achieved', 'final'], { title: 'WaterMetricsSet' })
+
+const PREDICTIONS_SCHEMA = objectOf<Predictions>({
+  mashPH: number,
+  beforeAcidPH: number,
+  residualAlkalinity: number,
+  sulfateChlorideRatio: nullable(number)
+}, ['mashPH', 'residualAlkalinity', 'sulfateChlorideRatio'], { title: 'Predictions' })
+
+const EQUILIBRIUM_SCHEMA = objectOf<Equilibrium>({
+  ionicStrength: number,
+  activityCoefficients: objectOf<Equilibrium['activityCoefficients']>({ monovalent: number, divalent: number }, ['monovalent', 'divalent']),
+  species: objectOf<ChemicalSpecies>({
+    H: number, OH: number, H2CO3: number, HCO3: number, CO3: number, H3PO4: number, H2PO4: number, HPO4: number, PO4: number
+  }, [], { description: 'mol/L' }),
+  chargeBalance: number
+}, ['ionicStrength', 'activityCoefficients', 'species', 'chargeBalance'], { title: 'Equilibrium', description: 'phModel advanced' })
+
+const GRAIN_MATCH_SCHEMA = objectOf<GrainMatchReport>({
+  name: string,
+  matchedId: string,
+  matchedName: string,
+  matchedBy: enumOf<GrainMatch['matchedBy']>({ id: true, name: true, fuzzy: true, color: true, default: true }),
+  diWaterPH: number,
+  bufferCapacity: number
+}, ['name', 'matchedName', 'matchedBy', 'diWaterPH', 'bufferCapacity'], { title: 'GrainMatch', description: 'phModel brunwater' })
+
+const ACIDULATED_MALT_SCHEMA = objectOf<AcidulatedMaltSuggestion>({
+  kg: number,
+  lacticAcidPercent: number,
+  gristPercent: number,
+  weight: number,
+  unit: string
+}, ['kg', 'lacticAcidPercent', 'gristPercent'], { title: 'AcidulatedMaltSuggestion' })
+
+const RANGE_STATUS_SCHEMA = objectOf<RangeStatus>({
+  value: number,
+  min: number,
+  max: number,
+  status: enumOf<RangeStatus['status']>({ 'in-range': true, low: true, high: true })
+}, ['value', 'min', 'max', 'status'], { title: 'RangeStatus' })
+
+const STYLE_REPORT_SCHEMA = objectOf<StyleReport>({
+  id: string,
+  name: string,
+  inRange: { type: 'boolean' },
+  ions: objectOf<Record<IonKey, RangeStatus>>({
+    calcium: RANGE_STATUS_SCHEMA,
+    magnesium: RANGE_STATUS_SCHEMA,
+    sodium: RANGE_STATUS_SCHEMA,
+    sulfate: RANGE_STATUS_SCHEMA,
+    chloride: RANGE_STATUS_SCHEMA,
+    bicarbonate: RANGE_STATUS_SCHEMA
+  }),
+  sulfateChlorideRatio: RANGE_STATUS_SCHEMA,
+  mashPH: RANGE_STATUS_SCHEMA
+}, ['id', 'name', 'inRange', 'ions', 'sulfateChlorideRatio'], { title: 'StyleReport' })
+
+const CALCULATE_COMMON = {
+  achieved: WATER_PROFILE_SCHEMA,
+  profiles: STAGED_PROFILES_SCHEMA,
+  boilVolumes: BOIL_VOLUMES_SCHEMA,
+  volumes: { ...VOLUMES_SCHEMA, title: undefined, description: 'Derived from batch' },
+  predictions: PREDICTIONS_SCHEMA,
+  metrics: METRICS_SCHEMA,
+  equilibrium: EQUILIBRIUM_SCHEMA,
+  grainMatches: { type: 'array', items: GRAIN_MATCH_SCHEMA } as JSONSchema,
+  suggestedAcids: amounts,
+  suggestedAcidulatedMalt: ACIDULATED_MALT_SCHEMA,
+  acidOptions: mapOf(number, 'ml by acid id'),
+  acidSource: enumOf<AcidSource>({ liquid: true, acidulated_malt: true }),
+  warnings: strings,
+  volumeMode: enumOf<VolumeMode>({ mash: true, total: true, staged: true }),
+  units: UNITS_SCHEMA
+}
+const CALCULATE_REQUIRED: (keyof CalculateResponseBase)[] = ['achieved', 'profiles', 'boilVolumes', 'predictions', 'metrics', 'volumeMode']
+
+export const CALCULATE_MANUAL_RESPONSE_SCHEMA = objectOf<CalculateManualResponse>({
+  ...CALCULATE_COMMON,
+  volumeUsed: { ...number, description: 'Volume the salts were dosed into, mash and total modes' }
+}, CALCULATE_REQUIRED, { title: 'CalculateManualResponse', description: 'mode manual' })
+
+export const CALCULATE_AUTO_RESPONSE_SCHEMA = objectOf<CalculateAutoResponse>({
+  ...CALCULATE_COMMON,
+  additions: { anyOf: [{ ...amounts, description: 'Grams by salt id' }, ADDITIONS_SCHEMA] },
+  rationale: strings,
+  residuals: objectOf<Record<IonKey, number>>(IONS, [], { description: 'optimization nnls: achieved minus target, ppm' }),
+  style: STYLE_REPORT_SCHEMA,
+  sulfateChlorideRatio: objectOf<SulfateChlorideBand>({
+    achieved: nullable(number),
+    band: objectOf<SulfateChlorideBand['band']>({ min: number, max: number }, ['min', 'max']),
+    inBand: { type: 'boolean' }
+  }, ['achieved', 'band', 'inBand'])
+}, ['additions', ...CALCULATE_REQUIRED], { title: 'CalculateAutoResponse', description: 'mode auto' })
+
+export const VALIDATE_RESPONSE_SCHEMA = objectOf<ValidateResponse>({
+  valid: { type: 'boolean' },
+  issues: {
+    type: 'array',
+    items: objectOf<ValidationIssue>({
+      severity: enumOf<ValidationIssue['severity']>({ error: true, warning: true, info: true }),
+      message: string,
+      suggestion: string
+    }, ['severity', 'message'], { title: 'ValidationIssue' })
+  },
+  predictions: PREDICTIONS_SCHEMA,
+  metrics: METRICS_SCHEMA,
+  profiles: STAGED_PROFILES_SCHEMA,
+  boilVolumes: BOIL_VOLUMES_SCHEMA,
+  volumes: CALCULATE_COMMON.volumes,
+  equilibrium: EQUILIBRIUM_SCHEMA,
+  grainMatches: CALCULATE_COMMON.grainMatches,
+  units: UNITS_SCHEMA
+}, ['valid', 'issues', 'predictions', 'metrics', 'profiles', 'boilVolumes'], { title: 'ValidateResponse' })
+
+type Sparge = SpargeAcidificationResult
+
+export const SPARGE_RESPONSE_SCHEMA = objectOf<SpargeResponse>({
+  acid: string,
+  amountMl: number,
+  mEq: number,
+  startingPH: number,
+  targetPH: number,
+  alkalinity: objectOf<Sparge['alkalinity']>({ before: number, after: number }, ['before', 'after'], { description: 'ppm as CaCO3' }),
+  changes: objectOf<Sparge['changes']>({ bicarbonate: number, sulfate: number, chloride: number, sodium: number }, [], { description: 'ppm' }),
+  sulfateChlorideRatio: objectOf<Sparge['sulfateChlorideRatio']>({ before: nullable(number), after: nullable(number) }, ['before', 'after']),
+  spargeWater: WATER_PROFILE_SCHEMA,
+  units: UNITS_SCHEMA
+}, ['acid', 'amountMl', 'mEq', 'startingPH', 'targetPH', 'alkalinity', 'changes', 'sulfateChlorideRatio', 'spargeWater'], { title: 'SpargeResponse' })
+
+export const BLEND_RESPONSE_SCHEMA = objectOf<BlendResponse>({
+  ratios: mapOf(number, 'Fraction of each source, sums to 1'),
+  liters: mapOf(number, 'Liters of each source, with volumes'),
+  sourceVolumes: mapOf(number, 'liters in the volume unit of the units option'),
+  blended: WATER_PROFILE_SCHEMA,
+  additions: mapOf(number, 'Grams by salt id, with withSalts'),
+  achieved: WATER_PROFILE_SCHEMA,
+  deviation: { ...number, description: 'Total absolute ppm deviation from the target' },
+  target: WATER_PROFILE_SCHEMA,
+  units: UNITS_SCHEMA
+}, ['ratios', 'blended', 'achieved', 'deviation', 'target'], { title: 'BlendResponse' })
+
+export const VOLUMES_RESPONSE_SCHEMA = objectOf<VolumesResponse>({
+  volumes: VOLUMES_SCHEMA,
+  boilVolumes: BOIL_VOLUMES_SCHEMA,
+  units: UNITS_SCHEMA
+}, ['volumes', 'boilVolumes'], { title: 'VolumesResponse' })
+
+export const WATER_IMPORT_RESPONSE_SCHEMA = objectOf<WaterImportResponse>({
+  water: WATER_PROFILE_SCHEMA,
+  conversions: {
+    type: 'array',
+    items: objectOf<ImportConversion>({
+      field: string,
+      source: string,
+      from: string,
+      factor: number,
+      inferred: { type: 'boolean' },
+      note: string
+    }, ['field', 'from', 'inferred', 'note'], { title: 'ImportConversion' })
+  },
+  inferred: strings,
+  unrecognized: strings
+}, ['water', 'conversions', 'inferred', 'unrecognized'], { title: 'WaterImportResponse' })
+
+export const ION_BALANCE_SCHEMA = objectOf<IonBalance>({
+  cations: number,
+  anions: number,
+  difference: number,
+  errorPercent: number,
+  status: enumOf<BalanceStatus>({ reliable: true, questionable: true, bad: true }),
+  milliequivalents: objectOf<IonBalance['milliequivalents']>({ ...IONS, carbonate: number }),
+  suggestions: {
+    type: 'array',
+    items: objectOf<IonSuggestion>({
+      ion: string,
+      kind: enumOf<IonSuggestion['kind']>({ missing: true, unit: true, adjust: true }),
+      suggested: number,
+      message: string
+    }, ['ion', 'kind', 'suggested', 'message'], { title: 'IonSuggestion' })
+  }
+}, ['cations', 'anions', 'difference', 'errorPercent', 'status', 'milliequivalents', 'suggestions'], { title: 'IonBalance' })
+
+const ions = objectOf<IonsPPM>({ ...IONS, carbonate: number })
+
+export const SALT_CATALOG_SCHEMA = mapOf(objectOf<SaltDefinition>({
+  id: string,
+  name: string,
+  formula: string,
+  molarMass: number,
+  hydration: number,
+  ionsPPMPerGram: { ...ions, description: 'mg of each ion per gram (per ml for solutions)' },
+  solubilityLimit: { ...number, description: 'g/L' },
+  unit: enumOf<NonNullable<SaltDefinition['unit']>>({ g: true, ml: true }),
+  solution: objectOf<SolutionSpec>({ name: string, salt: string, concentration: number, density: number }, ['salt', 'concentration', 'density']),
+  custom: { type: 'boolean' }
+}, ['id', 'name', 'ionsPPMPerGram'], { title: 'SaltDefinition' }), 'Salts by id')
+
+export const PROFILE_LIST_SCHEMA = objectOf<ProfileList>({
+  type: enumOf<ProfileList['type']>({ water: true, style: true }),
+  profiles: strings
+}, ['type', 'profiles'], { title: 'ProfileList' })
+
+const PROFILE_IONS: (keyof typeof IONS)[] = ['calcium', 'magnesium', 'sodium', 'sulfate', 'chloride', 'bicarbonate']
+
+export const WATER_PROFILE_ENTRY_SCHEMA = objectOf<WaterProfileEntry>({
+  ...WATER_PROFILE_PROPERTIES,
+  id: string,
+  name: string
+}, ['id', 'name', ...PROFILE_IONS], { title: 'WaterProfileEntry' })
+
+export const STYLE_PROFILE_ENTRY_SCHEMA = objectOf<StyleProfileEntry>({
+  id: string,
+  name: string,
+  description: string,
+  targets: objectOf<StyleProfileEntry['targets']>({ ...WATER_PROFILE_PROPERTIES, sulfateChlorideRatio: number }, PROFILE_IONS)
+}, ['id', 'name', 'description', 'targets'], { title: 'StyleProfileEntry' })
+
+const FIELD_ERROR_SCHEMA = objectOf<FieldError>({
+  path: { ...string, description: 'e.g. grainBill[0].weight; body for the request as a whole' },
+  code: enumOf<FieldErrorCode>({
+    required: true, type: true, enum: true, minimum: true, maximum: true, exclusiveMinimum: true, minItems: true,
+    maxItems: true, minLength: true, unknown_field: true, unknown_salt: true, unknown_acid: true
+  }),
+  message: string
+}, ['path', 'code', 'message'], { title: 'FieldError' })
+
+export const ERROR_RESPONSE_SCHEMA = objectOf<ErrorResponse>({
+  error: string,
+  message: { ...string, description: 'What went wrong, on 500' },
+  errors: { type: 'array', items: { anyOf: [string, FIELD_ERROR_SCHEMA] } },
+  required: strings,
+  type: { ...string, description: 'What was not found, on 404' },
+  id: string,
+  acid: string
+}, ['error'], { title: 'ErrorResponse' })
@@ -0,0 +1,252 @@
+// Request and response bodies of the api/ handlers. The handlers read their
+// bodies as these types and check their responses against them, and the
+// OpenAPI document is built from schemas typed against the same interfaces.
+import type { WaterProfile, Volumes, VolumeMode, GrainBillItem, PHModel } from '../../core/types'
+import type { StageAdditions, StagedAdditions, StagedProfiles } from '../calculations/staged'
+import type { BatchParameters, BoilVolumes } from '../calculations/volumes'
+import type { DissolutionOptions } from '../calculations/dissolution'
+import type { IonConstraints, IonKey, Flavor, SaltAdditions } from '../calculations/optimize'
+import type { UnitSystem, UnitOptions, Units } from '../calculations/units'
+import type { WaterMetricsSet } from '../calculations/metrics'
+import type { StyleReport } from '../calculations/styles'
+import type { AdvancedPHResult } from '../calculations/ph'
+import type { ImportConversion, LabReport } from '../calculations/water-report'
+import type { SpargeAcidificationResult } from '../calculations/sparge'
+import type { CustomSaltSpec, SolutionSpec } from '../../core/salts'
+import type { GrainMatch } from '../../core/grain-database'
+import type { FieldError } from '../schemas/json-schema'
+
+export type CalculateMode = 'manual' | 'auto'
+export type Optimization = 'simple' | 'balanced' | 'exact' | 'nnls'
+export type AcidSource = 'liquid' | 'acidulated_malt'
+export type Additions = StageAdditions | StagedAdditions // { salts, acids } or per stage { mash, sparge, boil }
+
+export interface CalculateRequest {
+  sourceWater: WaterProfile
+  targetWater?: WaterProfile
+  grainBill: GrainBillItem[]
+  volumes?: Volumes
+  batch?: Partial<BatchParameters> // in place of volumes; grainWeight defaults to the grain bill
+  mode?: CalculateMode
+  volumeMode?: VolumeMode
+  additions?: Additions
+  phModel?: PHModel
+  assumeCarbonateDissolution?: boolean
+  optimization?: Optimization
+  targetMashPH?: number
+  acidSource?: AcidSource
+  acidulatedMaltLacticPercent?: number
+  allowedSalts?: string[]
+  maxSalts?: number
+  maxSaltAmount?: number
+  tolerancePPM?: number
+  constraints?: IonConstraints
+  weights?: Partial<Record<IonKey, number>>
+  flavor?: Flavor
+  ratioTarget?: number
+  ratioWeight?: number
+  style?: string // beer-styles.json id, auto mode
+  dissolution?: DissolutionOptions // { mashPH, co2 } for chalk and lime solubility
+  customSalts?: Record<string, CustomSaltSpec> // salts or mineral concentrates by id, usable in additions and allowedSalts
+  solutions?: Record<string, SolutionSpec> // stock solutions by id; additions and allowedSalts then dose them in ml
+  units?: UnitSystem | UnitOptions // volumes, batch and grainBill in, volumes out; salts stay g, acids ml
+}
+
+export interface ValidateRequest {
+  plannedAdditions: Additions
+  sourceWater: WaterProfile
+  grainBill: GrainBillItem[]
+  volumes?: Volumes
+  batch?: Partial<BatchParameters>
+  volumeMode?: VolumeMode // flat salts; staged plans are always staged
+  phModel?: PHModel
+  assumeCarbonateDissolution?: boolean
+  dissolution?: DissolutionOptions
+  customSalts?: Record<string, CustomSaltSpec>
+  solutions?: Record<string, SolutionSpec>
+  units?: UnitSystem | UnitOptions
+}
+
+export interface ProfilesQuery {
+  type?: 'water' | 'style'
+  id?: string
+}
+
+export interface SchemasQuery {
+  name?: string
+}
+
+export interface SpargeRequest {
+  spargeWater: WaterProfile
+  startingPH?: number // defaults to spargeWater.ph
+  volume: number      // liters, or the volume unit of `units`
+  targetPH?: number
+  acid?: string
+  units?: UnitSystem | UnitOptions
+}
+
+export type BlendSourceInput = string | (WaterProfile & { id?: string; name?: string })
+
+export interface BlendRequest {
+  sources: BlendSourceInput[] // water-profiles.json ids or inline profiles
+  targetWater?: WaterProfile
+  style?: string
+  withSalts?: boolean
+  volumes?: Volumes
+  volumeMode?: VolumeMode
+  assumeCarbonateDissolution?: boolean
+  units?: UnitSystem | UnitOptions // volumes in; sourceVolumes out alongside liters
+}
+
+export type VolumesRequest = Partial<BatchParameters> & { units?: UnitSystem | UnitOptions }
+
+export interface WaterImportRequest {
+  report?: LabReport
+  csv?: string
+}
+
+export interface WaterBalanceRequest {
+  water: WaterProfile
+}
+
+// --- Responses ---
+
+export interface Predictions {
+  mashPH: number
+  beforeAcidPH?: number // calculate only
+  residualAlkalinity: number
+  sulfateChlorideRatio: number | null
+}
+
+export type Equilibrium = Pick<AdvancedPHResult, 'ionicStrength' | 'activityCoefficients' | 'species' | 'chargeBalance'>
+
+export interface GrainMatchReport {
+  name: string
+  matchedId?: string
+  matchedName: string
+  matchedBy: GrainMatch['matchedBy']
+  diWaterPH: number
+  bufferCapacity: number
+}
+
+export interface AcidulatedMaltSuggestion {
+  kg: number
+  lacticAcidPercent: number
+  gristPercent: number
+  weight?: number // in the units option's weight unit, when not metric
+  unit?: string
+}
+
+export interface CalculateResponseBase {
+  achieved: WaterProfile
+  profiles: StagedProfiles
+  boilVolumes: BoilVolumes
+  volumes?: Volumes // derived from batch
+  predictions: Predictions
+  metrics: WaterMetricsSet
+  equilibrium?: Equilibrium
+  grainMatches?: GrainMatchReport[]
+  suggestedAcids?: Record<string, number>
+  suggestedAcidulatedMalt?: AcidulatedMaltSuggestion
+  acidOptions?: Record<string, number>
+  acidSource?: AcidSource
+  warnings?: string[]
+  volumeMode: VolumeMode
+  units?: Units
+}
+
+export interface CalculateManualResponse extends CalculateResponseBase {
+  volumeUsed?: number
+}
+
+export interface SulfateChlorideBand {
+  achieved: number | null
+  band: { min: number; max: number }
+  inBand: boolean
+}
+
+export interface CalculateAutoResponse extends CalculateResponseBase {
+  additions: SaltAdditions | StagedAdditions
+  rationale?: string[]
+  residuals?: Record<IonKey, number>
+  style?: StyleReport
+  sulfateChlorideRatio?: SulfateChlorideBand
+}
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning' | 'info'
+  message: string
+  suggestion?: string
+}
+
+export interface ValidateResponse {
+  valid: boolean
+  issues: ValidationIssue[]
+  predictions: Predictions
+  metrics: WaterMetricsSet
+  profiles: StagedProfiles
+  boilVolumes: BoilVolumes
+  volumes?: Volumes
+  equilibrium?: Equilibrium
+  grainMatches?: GrainMatchReport[]
+  units?: Units
+}
+
+export interface SpargeResponse extends Pick<SpargeAcidificationResult, 'acid' | 'mEq' | 'targetPH' | 'alkalinity' | 'changes' | 'sulfateChlorideRatio'> {
+  amountMl: number
+  startingPH: number
+  spargeWater: WaterProfile
+  units?: Units
+}
+
+export interface BlendResponse {
+  ratios: Record<string, number>
+  liters?: Record<string, number>
+  sourceVolumes?: Record<string, number> // liters in the units option's volume unit
+  blended: WaterProfile
+  additions?: SaltAdditions
+  achieved: WaterProfile
+  deviation: number
+  target: WaterProfile
+  units?: Units
+}
+
+export interface VolumesResponse {
+  volumes: Volumes
+  boilVolumes: BoilVolumes
+  units?: Units
+}
+
+export interface WaterImportResponse {
+  water: WaterProfile
+  conversions: ImportConversion[]
+  inferred: string[] // fields whose unit or value was assumed
+  unrecognized: string[]
+}
+
+export interface ProfileList {
+  type: 'water' | 'style'
+  profiles: string[]
+}
+
+export interface WaterProfileEntry extends WaterProfile {
+  id: string
+  name: string
+}
+
+export interface StyleProfileEntry {
+  id: string
+  name: string
+  description: string
+  targets: WaterProfile & { sulfateChlorideRatio?: number }
+}
+
+export interface ErrorResponse {
+  error: string
+  message?: string            // 500
+  errors?: (string | FieldError)[] // 400, field errors from the request schemas
+  required?: string[]         // 400, missing fields
+  type?: string               // 404
+  id?: string                 // 404
+  acid?: string               // 400, unknown acid
+}
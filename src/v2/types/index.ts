@@ -1,4 +1,4 @@
 // Lightweight v2 types layer. Reuse existing core types for now
 // to minimize churn while aligning to the FINAL plan structure.
-export type { WaterProfile, Volumes, VolumeMode, GrainBillItem } from '../../core/types'
+export type { WaterProfile, Volumes, VolumeMode, GrainBillItem, PHModel } from '../../core/types'
 